@@ -0,0 +1,259 @@
+// Local stand-in for the Cashfree PG API, for development and offline checkout testing.
+//
+//   npm run cashfree:mock                     # interactive: pick an outcome on the checkout page
+//   npm run cashfree:mock -- --outcome=PAID   # scripted: every checkout completes with PAID
+//
+// Point the edge functions at it with CASHFREE_BASE_URL=http://host.docker.internal:8787/pg
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const OUTCOMES = ['PAID', 'FAILED', 'ACTIVE', 'EXPIRED'];
+const ORDER_TTL_MS = 15 * 60 * 1000;
+
+const args = Object.fromEntries(
+  process.argv.slice(2).map((arg) => {
+    const [key, value] = arg.replace(/^--/, '').split('=');
+    return [key, value ?? 'true'];
+  })
+);
+
+const port = Number(args.port ?? process.env.CASHFREE_MOCK_PORT ?? 8787);
+const scriptedOutcome = (args.outcome ?? process.env.CASHFREE_MOCK_OUTCOME ?? '').toUpperCase() || null;
+
+if (scriptedOutcome && !OUTCOMES.includes(scriptedOutcome)) {
+  console.error(`Unknown outcome "${scriptedOutcome}". Use one of: ${OUTCOMES.join(', ')}`);
+  process.exit(1);
+}
+
+const orders = new Map();
+const refunds = new Map();
+let nextCfOrderId = 1000001;
+let nextCfRefundId = 5000001;
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, code, message) =>
+  sendJson(res, status, { code, message, type: 'invalid_request_error' });
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+  });
+
+// Mirrors Cashfree: an unpaid order lapses once its expiry time passes
+const currentOrder = (orderId) => {
+  const order = orders.get(orderId);
+  if (order && order.order_status === 'ACTIVE' && Date.parse(order.order_expiry_time) < Date.now()) {
+    order.order_status = 'EXPIRED';
+  }
+  return order;
+};
+
+const findBySession = (sessionId) =>
+  [...orders.values()].find((order) => order.payment_session_id === sessionId);
+
+const returnUrlFor = (order) =>
+  (order.order_meta?.return_url || '')
+    .replace('{order_id}', encodeURIComponent(order.order_id))
+    .replace('{order_status}', order.order_status);
+
+const checkoutPage = (order) => `<!doctype html>
+<html>
+  <head><title>Cashfree stand-in checkout</title></head>
+  <body style="font-family: sans-serif; max-width: 420px; margin: 48px auto;">
+    <h2>Cashfree stand-in checkout</h2>
+    <p>Order <code>${order.order_id}</code></p>
+    <p>Amount <strong>&#8377;${order.order_amount}</strong></p>
+    <p>Choose how this payment should end:</p>
+    ${OUTCOMES.map(
+      (outcome) =>
+        `<p><a href="/pg/view/sessions/${order.payment_session_id}/complete?outcome=${outcome}">${outcome}</a></p>`
+    ).join('\n    ')}
+  </body>
+</html>`;
+
+const completeCheckout = (res, order, outcome) => {
+  order.order_status = outcome;
+  console.log(`Order ${order.order_id} -> ${outcome}`);
+
+  const returnUrl = returnUrlFor(order);
+  if (!returnUrl) {
+    return sendJson(res, 200, order);
+  }
+  res.writeHead(302, { Location: returnUrl });
+  res.end();
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const path = url.pathname;
+
+  try {
+    // Create order
+    if (req.method === 'POST' && path === '/pg/orders') {
+      if (!req.headers['x-client-id'] || !req.headers['x-client-secret']) {
+        return sendError(res, 401, 'request_failed', 'authentication Failed');
+      }
+
+      const body = await readJson(req);
+      if (!body.order_id || !(Number(body.order_amount) > 0)) {
+        return sendError(res, 400, 'order_id_missing', 'order_id and order_amount are required');
+      }
+      if (orders.has(body.order_id)) {
+        return sendError(res, 409, 'order_already_exists', 'order with same id is already present');
+      }
+
+      const order = {
+        cf_order_id: String(nextCfOrderId++),
+        order_id: body.order_id,
+        entity: 'order',
+        order_currency: body.order_currency || 'INR',
+        order_amount: Number(body.order_amount),
+        order_status: 'ACTIVE',
+        payment_session_id: `session_mock_${randomUUID().replace(/-/g, '')}`,
+        order_expiry_time: new Date(Date.now() + ORDER_TTL_MS).toISOString(),
+        created_at: new Date().toISOString(),
+        customer_details: body.customer_details || {},
+        order_meta: body.order_meta || {},
+      };
+      orders.set(order.order_id, order);
+      console.log(`Created order ${order.order_id} for ₹${order.order_amount}`);
+
+      return sendJson(res, 200, {
+        ...order,
+        payment_link: `http://${req.headers.host}/pg/view/sessions/${order.payment_session_id}`,
+      });
+    }
+
+    // Get order
+    const orderMatch = path.match(/^\/pg\/orders\/([^/]+)$/);
+    if (req.method === 'GET' && orderMatch) {
+      const order = currentOrder(decodeURIComponent(orderMatch[1]));
+      if (!order) {
+        return sendError(res, 404, 'order_not_found', 'order not found');
+      }
+      return sendJson(res, 200, {
+        ...order,
+        payment_link: `http://${req.headers.host}/pg/view/sessions/${order.payment_session_id}`,
+      });
+    }
+
+    // Create refund. Refunds start PENDING and settle the first time their status is fetched.
+    const refundsMatch = path.match(/^\/pg\/orders\/([^/]+)\/refunds$/);
+    if (req.method === 'POST' && refundsMatch) {
+      const order = currentOrder(decodeURIComponent(refundsMatch[1]));
+      if (!order) {
+        return sendError(res, 404, 'order_not_found', 'order not found');
+      }
+      if (order.order_status !== 'PAID') {
+        return sendError(res, 400, 'order_not_paid', 'refunds can only be created for paid orders');
+      }
+
+      const body = await readJson(req);
+      const refundAmount = Number(body.refund_amount);
+      const refunded = [...refunds.values()]
+        .filter((refund) => refund.order_id === order.order_id && refund.refund_status !== 'CANCELLED')
+        .reduce((sum, refund) => sum + refund.refund_amount, 0);
+      if (!body.refund_id || !(refundAmount > 0)) {
+        return sendError(res, 400, 'refund_invalid', 'refund_id and refund_amount are required');
+      }
+      if (refunds.has(body.refund_id)) {
+        return sendError(res, 409, 'refund_already_exists', 'refund with same id is already present');
+      }
+      if (refunded + refundAmount > order.order_amount) {
+        return sendError(res, 400, 'refund_amount_invalid', 'refund amount exceeds the amount paid');
+      }
+
+      const refund = {
+        cf_refund_id: String(nextCfRefundId++),
+        refund_id: body.refund_id,
+        order_id: order.order_id,
+        entity: 'refund',
+        refund_amount: refundAmount,
+        refund_currency: 'INR',
+        refund_note: body.refund_note || null,
+        refund_status: 'PENDING',
+        created_at: new Date().toISOString(),
+        processed_at: null,
+      };
+      refunds.set(refund.refund_id, refund);
+      console.log(`Created refund ${refund.refund_id} for ₹${refundAmount} on ${order.order_id}`);
+
+      return sendJson(res, 200, refund);
+    }
+
+    // Get refund
+    const refundMatch = path.match(/^\/pg\/orders\/([^/]+)\/refunds\/([^/]+)$/);
+    if (req.method === 'GET' && refundMatch) {
+      const refund = refunds.get(decodeURIComponent(refundMatch[2]));
+      if (!refund || refund.order_id !== decodeURIComponent(refundMatch[1])) {
+        return sendError(res, 404, 'refund_not_found', 'refund not found');
+      }
+      if (refund.refund_status === 'PENDING') {
+        refund.refund_status = 'SUCCESS';
+        refund.processed_at = new Date().toISOString();
+      }
+      return sendJson(res, 200, refund);
+    }
+
+    // Hosted checkout page
+    const sessionMatch = path.match(/^\/pg\/view\/sessions\/([^/]+)(\/complete)?$/);
+    if (req.method === 'GET' && sessionMatch) {
+      const order = findBySession(sessionMatch[1]);
+      if (!order) {
+        return sendError(res, 404, 'session_not_found', 'payment session not found');
+      }
+
+      const outcome = sessionMatch[2] ? (url.searchParams.get('outcome') || '').toUpperCase() : scriptedOutcome;
+      if (outcome) {
+        if (!OUTCOMES.includes(outcome)) {
+          return sendError(res, 400, 'invalid_outcome', `outcome must be one of ${OUTCOMES.join(', ')}`);
+        }
+        return completeCheckout(res, order, outcome);
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      return res.end(checkoutPage(order));
+    }
+
+    // Test controls: inspect orders or force an order into a given state
+    if (req.method === 'GET' && path === '/__mock/orders') {
+      return sendJson(res, 200, [...orders.keys()].map(currentOrder));
+    }
+
+    const controlMatch = path.match(/^\/__mock\/orders\/([^/]+)$/);
+    if (req.method === 'POST' && controlMatch) {
+      const order = orders.get(decodeURIComponent(controlMatch[1]));
+      const { order_status: status } = await readJson(req);
+      if (!order) {
+        return sendError(res, 404, 'order_not_found', 'order not found');
+      }
+      if (!OUTCOMES.includes(status)) {
+        return sendError(res, 400, 'invalid_outcome', `order_status must be one of ${OUTCOMES.join(', ')}`);
+      }
+      order.order_status = status;
+      return sendJson(res, 200, order);
+    }
+
+    sendError(res, 404, 'not_found', `No stand-in route for ${req.method} ${path}`);
+  } catch (error) {
+    console.error(error);
+    sendError(res, 500, 'internal_error', error instanceof Error ? error.message : 'Unknown error');
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Cashfree stand-in listening on http://localhost:${port}/pg`);
+  console.log(scriptedOutcome ? `Every checkout completes with ${scriptedOutcome}` : 'Pick an outcome on the checkout page');
+});
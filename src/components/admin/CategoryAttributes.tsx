@@ -0,0 +1,232 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ATTRIBUTE_TYPE_LABELS, AttributeDataType, CategoryAttribute, fetchCategoryAttributes } from '@/lib/attributes';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Edit, ListChecks, Trash2 } from 'lucide-react';
+
+interface CategoryAttributesProps {
+  categories: { id: string; name: string }[];
+}
+
+const EMPTY_FORM = { name: '', data_type: 'text' as AttributeDataType, unit: '', options: '', group_name: 'General' };
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+const CategoryAttributes: React.FC<CategoryAttributesProps> = ({ categories }) => {
+  const { toast } = useToast();
+  const [categoryId, setCategoryId] = useState('');
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchAttributes = useCallback(async () => {
+    if (!categoryId) {
+      setAttributes([]);
+      return;
+    }
+    try {
+      setAttributes(await fetchCategoryAttributes(categoryId));
+    } catch (error: unknown) {
+      toast({ title: 'Error', description: error instanceof Error ? error.message : String(error), variant: 'destructive' });
+    }
+  }, [toast, categoryId]);
+
+  useEffect(() => {
+    fetchAttributes();
+  }, [fetchAttributes]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleEdit = (attribute: CategoryAttribute) => {
+    setEditingId(attribute.id);
+    setForm({
+      name: attribute.name,
+      data_type: attribute.data_type,
+      unit: attribute.unit ?? '',
+      options: attribute.options.join(', '),
+      group_name: attribute.group_name,
+    });
+  };
+
+  const handleSave = async () => {
+    const options = form.options.split(',').map((option) => option.trim()).filter(Boolean);
+    if (!form.name.trim()) {
+      toast({ title: 'Enter a name for the attribute', variant: 'destructive' });
+      return;
+    }
+    if (form.data_type === 'select' && options.length === 0) {
+      toast({ title: 'List the values to choose from', variant: 'destructive' });
+      return;
+    }
+
+    const row = {
+      category_id: categoryId,
+      name: form.name.trim(),
+      data_type: form.data_type,
+      unit: form.data_type === 'number' ? form.unit.trim() || null : null,
+      options: form.data_type === 'select' ? options : [],
+      group_name: form.group_name.trim() || 'General',
+    };
+
+    setSaving(true);
+    const { error } = editingId
+      ? await supabase.from('category_attributes').update(row).eq('id', editingId)
+      : await supabase.from('category_attributes').insert({ ...row, display_order: attributes.length });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: editingId ? 'Attribute updated!' : 'Attribute added!' });
+      resetForm();
+      fetchAttributes();
+    }
+  };
+
+  const handleDelete = async (attribute: CategoryAttribute) => {
+    const { error } = await supabase.from('category_attributes').delete().eq('id', attribute.id);
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      if (editingId === attribute.id) resetForm();
+      fetchAttributes();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Specifications
+        </CardTitle>
+        <CardDescription>
+          The attributes products in a category are described by. They are filled in from the product dialog and shown
+          as a specifications table on the product page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label>Category</Label>
+          <select
+            className={selectClassName}
+            value={categoryId}
+            onChange={(e) => {
+              setCategoryId(e.target.value);
+              resetForm();
+            }}
+          >
+            <option value="">Select a category</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>{category.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {categoryId && (
+          <>
+            {attributes.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Group</TableHead>
+                    <TableHead className="w-24">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {attributes.map((attribute) => (
+                    <TableRow key={attribute.id}>
+                      <TableCell>
+                        {attribute.name}
+                        {attribute.unit && <span className="text-muted-foreground"> ({attribute.unit})</span>}
+                      </TableCell>
+                      <TableCell>
+                        {ATTRIBUTE_TYPE_LABELS[attribute.data_type]}
+                        {attribute.data_type === 'select' && (
+                          <p className="text-xs text-muted-foreground">{attribute.options.join(', ')}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{attribute.group_name}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleEdit(attribute)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button variant="destructive" size="sm"><Trash2 className="h-4 w-4" /></Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Attribute</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Delete "{attribute.name}"? Every product in this category loses its {attribute.name} value.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(attribute)} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
+              <Label className="text-base font-semibold">{editingId ? 'Edit Attribute' : 'Add Attribute'}</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <div><Label>Name</Label><Input placeholder="e.g. RAM" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} /></div>
+                <div>
+                  <Label>Type</Label>
+                  <select
+                    className={selectClassName}
+                    value={form.data_type}
+                    onChange={(e) => setForm({ ...form, data_type: e.target.value as AttributeDataType })}
+                  >
+                    {Object.entries(ATTRIBUTE_TYPE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div><Label>Group</Label><Input placeholder="e.g. Display" value={form.group_name} onChange={(e) => setForm({ ...form, group_name: e.target.value })} /></div>
+                {form.data_type === 'number' && (
+                  <div><Label>Unit</Label><Input placeholder="e.g. GB" value={form.unit} onChange={(e) => setForm({ ...form, unit: e.target.value })} /></div>
+                )}
+              </div>
+              {form.data_type === 'select' && (
+                <div><Label>Values</Label><Input placeholder="Comma separated, e.g. Cotton, Linen, Polyester" value={form.options} onChange={(e) => setForm({ ...form, options: e.target.value })} /></div>
+              )}
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving ? 'Saving...' : editingId ? 'Update Attribute' : 'Add Attribute'}
+                </Button>
+                {editingId && <Button variant="outline" onClick={resetForm}>Cancel</Button>}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CategoryAttributes;
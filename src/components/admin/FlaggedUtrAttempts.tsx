@@ -0,0 +1,127 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, Loader2 } from 'lucide-react';
+
+interface FlaggedAttempt {
+  id: string;
+  utr: string;
+  amount: number;
+  guest_email: string | null;
+  user_id: string | null;
+  created_at: string;
+  existing_order: { id: string; payment_status: string; created_at: string } | null;
+}
+
+const FlaggedUtrAttempts = () => {
+  const { toast } = useToast();
+  const [attempts, setAttempts] = useState<FlaggedAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const fetchAttempts = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('flagged_utr_attempts')
+      .select('id, utr, amount, guest_email, user_id, created_at, existing_order:orders(id, payment_status, created_at)')
+      .is('reviewed_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      setAttempts(data as FlaggedAttempt[]);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAttempts();
+  }, [fetchAttempts]);
+
+  const handleMarkReviewed = async (id: string) => {
+    setReviewingId(id);
+    const { error } = await supabase
+      .from('flagged_utr_attempts')
+      .update({ reviewed_at: new Date().toISOString() })
+      .eq('id', id);
+    setReviewingId(null);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+    setAttempts((prev) => prev.filter((attempt) => attempt.id !== id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Flagged UTRs</CardTitle>
+        <CardDescription>
+          Checkouts that were refused because the UTR entered had already been used for another order.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : attempts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No flagged UTRs</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>UTR</TableHead>
+                <TableHead>Attempted By</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Attempted</TableHead>
+                <TableHead>Original Order</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {attempts.map((attempt) => (
+                <TableRow key={attempt.id}>
+                  <TableCell className="font-mono">{attempt.utr}</TableCell>
+                  <TableCell>
+                    {attempt.guest_email || (attempt.user_id ? `User ${attempt.user_id.slice(0, 8)}...` : '—')}
+                  </TableCell>
+                  <TableCell>₹{attempt.amount}</TableCell>
+                  <TableCell>{new Date(attempt.created_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    {attempt.existing_order ? (
+                      <div className="space-y-1">
+                        <p className="font-mono">{attempt.existing_order.id.slice(0, 8)}...</p>
+                        <Badge variant="secondary">{attempt.existing_order.payment_status}</Badge>
+                      </div>
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleMarkReviewed(attempt.id)}
+                      disabled={reviewingId === attempt.id}
+                    >
+                      {reviewingId === attempt.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                      Reviewed
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FlaggedUtrAttempts;
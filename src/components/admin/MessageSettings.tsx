@@ -0,0 +1,85 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { MessageSquare, Save } from 'lucide-react';
+
+const CHANNELS = [
+  { id: 'sms', label: 'SMS' },
+  { id: 'whatsapp', label: 'WhatsApp' },
+];
+
+// Read by public.enqueue_order_message; SMS only when the setting has never been saved
+const SETTING_KEY = 'order_message_channels';
+
+const MessageSettings = () => {
+  const { toast } = useToast();
+  const [channels, setChannels] = useState<string[]>(['sms']);
+  const [saving, setSaving] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    const { data, error } = await supabase.from('settings').select('value').eq('key', SETTING_KEY).maybeSingle();
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else if (data) {
+      setChannels(data.value.split(',').map((channel) => channel.trim()).filter(Boolean));
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const toggleChannel = (channel: string, enabled: boolean) => {
+    setChannels((prev) => (enabled ? [...prev, channel] : prev.filter((value) => value !== channel)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await supabase
+      .from('settings')
+      .upsert({ key: SETTING_KEY, value: channels.join(',') }, { onConflict: 'key' });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Message settings saved!' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Order Messages
+        </CardTitle>
+        <CardDescription>
+          Channels used for order updates to customers' phones. Customers can opt out of each one from their profile.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {CHANNELS.map((channel) => (
+          <div key={channel.id} className="flex items-center gap-2">
+            <Switch
+              id={`channel_${channel.id}`}
+              checked={channels.includes(channel.id)}
+              onCheckedChange={(checked) => toggleChannel(channel.id, checked)}
+            />
+            <Label htmlFor={`channel_${channel.id}`}>{channel.label}</Label>
+          </div>
+        ))}
+        <Button onClick={handleSave} disabled={saving} className="w-full sm:w-auto">
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Message Settings'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MessageSettings;
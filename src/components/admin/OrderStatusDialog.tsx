@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { getNextOrderStatuses, getOrderStatusColor, getOrderStatusLabel } from '@/lib/orderStatus';
+
+interface StatusHistoryEntry {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null;
+  note: string | null;
+  created_at: string;
+  actor?: string;
+}
+
+interface OrderStatusDialogProps {
+  order: { id: string; status: string; courier_name?: string | null; awb_number?: string | null; tracking_url?: string | null };
+  onUpdated: () => void;
+}
+
+const OrderStatusDialog: React.FC<OrderStatusDialogProps> = ({ order, onUpdated }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [history, setHistory] = useState<StatusHistoryEntry[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [nextStatus, setNextStatus] = useState('');
+  const [note, setNote] = useState('');
+  const [courierName, setCourierName] = useState('');
+  const [awbNumber, setAwbNumber] = useState('');
+  const [trackingUrl, setTrackingUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const nextStatuses = getNextOrderStatuses(order.status);
+
+  const fetchHistory = async () => {
+    setLoadingHistory(true);
+    const { data } = await supabase
+      .from('order_status_history')
+      .select('*')
+      .eq('order_id', order.id)
+      .order('created_at', { ascending: false });
+
+    const entries: StatusHistoryEntry[] = data || [];
+    const actorIds = [...new Set(entries.map((entry) => entry.changed_by).filter((id): id is string => !!id))];
+    if (actorIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from('profiles')
+        .select('user_id, email, full_name')
+        .in('user_id', actorIds);
+      entries.forEach((entry) => {
+        const profile = profiles?.find((p) => p.user_id === entry.changed_by);
+        entry.actor = profile?.full_name || profile?.email || undefined;
+      });
+    }
+
+    setHistory(entries);
+    setLoadingHistory(false);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setNextStatus(nextStatuses[0] ?? '');
+      setNote('');
+      setCourierName(order.courier_name ?? '');
+      setAwbNumber(order.awb_number ?? '');
+      setTrackingUrl(order.tracking_url ?? '');
+      fetchHistory();
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!nextStatus) return;
+    setSaving(true);
+    const { error } = await supabase.rpc('update_order_status', {
+      _order_id: order.id,
+      _status: nextStatus,
+      _note: note.trim() || undefined,
+      _courier_name: courierName.trim() || undefined,
+      _awb_number: awbNumber.trim() || undefined,
+      _tracking_url: trackingUrl.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Order updated', description: `Order moved to ${getOrderStatusLabel(nextStatus)}` });
+    setOpen(false);
+    onUpdated();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ArrowRight className="h-4 w-4 mr-2" />
+          Status
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Order {order.id.slice(0, 8)}...</DialogTitle>
+          <DialogDescription className="flex items-center gap-2">
+            Current status
+            <Badge className={`${getOrderStatusColor(order.status)} text-white`}>{getOrderStatusLabel(order.status)}</Badge>
+          </DialogDescription>
+        </DialogHeader>
+
+        {nextStatuses.length > 0 ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Move to</Label>
+              <Select value={nextStatus} onValueChange={setNextStatus}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {nextStatuses.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {getOrderStatusLabel(status)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {/* The customer sees these on their order page once it ships */}
+            {nextStatus === 'shipped' && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="courier_name">Courier</Label>
+                    <Input
+                      id="courier_name"
+                      placeholder="e.g. Delhivery"
+                      value={courierName}
+                      onChange={(e) => setCourierName(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="awb_number">AWB Number</Label>
+                    <Input
+                      id="awb_number"
+                      value={awbNumber}
+                      onChange={(e) => setAwbNumber(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tracking_url">Tracking URL</Label>
+                  <Input
+                    id="tracking_url"
+                    placeholder="Optional"
+                    value={trackingUrl}
+                    onChange={(e) => setTrackingUrl(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="status_note">Note</Label>
+              <Input
+                id="status_note"
+                placeholder="Optional, kept in the order history"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={handleUpdate}
+              disabled={saving || !nextStatus || (nextStatus === 'shipped' && (!courierName.trim() || !awbNumber.trim()))}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Update Status
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This order is closed and cannot change status.</p>
+        )}
+
+        <div className="space-y-2">
+          <Label>History</Label>
+          {loadingHistory ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No status changes recorded</p>
+          ) : (
+            <div className="space-y-2 max-h-60 overflow-y-auto">
+              {history.map((entry) => (
+                <div key={entry.id} className="text-sm border rounded-md p-2">
+                  <p className="font-medium">
+                    {entry.from_status ? `${getOrderStatusLabel(entry.from_status)} → ` : ''}
+                    {getOrderStatusLabel(entry.to_status)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(entry.created_at).toLocaleString()} · {entry.actor || (entry.changed_by ? 'Admin' : 'System')}
+                  </p>
+                  {entry.note && <p className="text-xs mt-1">{entry.note}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OrderStatusDialog;
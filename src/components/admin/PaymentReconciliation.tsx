@@ -0,0 +1,325 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Check, FileSpreadsheet, Loader2, X } from 'lucide-react';
+import { getScanUtr, parsePaymentId } from '@/lib/payments';
+import { matchStatementEntries, parseBankStatement } from '@/lib/bankStatement';
+import { getPaymentReference } from '@/lib/upi';
+
+interface PendingOrder {
+  id: string;
+  status: string;
+  utr: string | null;
+  reference: string | null;
+  expectedAmount: number | null;
+  paymentId: string | null;
+  createdAt: string;
+}
+
+interface StatementRow {
+  utr: string;
+  amount: number;
+  transaction_date: string | null;
+  matched_order_id: string | null;
+}
+
+const PaymentReconciliation = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [orders, setOrders] = useState<PendingOrder[]>([]);
+  const [statementRows, setStatementRows] = useState<StatementRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('orders')
+      .select('id, status, total_amount, payment_id, utr, created_at, checkout_sessions(id, amount)')
+      .eq('payment_status', 'awaiting_verification')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      setLoading(false);
+      return;
+    }
+
+    const pending = (data || []).map((order) => {
+      const session = order.checkout_sessions?.[0];
+      const sessionAmount = session?.amount;
+      const isCod = parsePaymentId(order.payment_id)?.method === 'cod';
+      return {
+        id: order.id,
+        status: order.status,
+        // Orders whose UTR duplicated an earlier one were left without orders.utr when it was introduced
+        utr: order.utr ?? getScanUtr(order.payment_id),
+        reference: session ? getPaymentReference(session.id) : null,
+        // COD orders only collect the confirmation charge, which is recorded on the checkout session
+        expectedAmount: sessionAmount != null ? Number(sessionAmount) : isCod ? null : Number(order.total_amount),
+        paymentId: order.payment_id,
+        createdAt: order.created_at,
+      };
+    });
+    setOrders(pending);
+
+    const utrs = pending.map((order) => order.utr).filter((utr): utr is string => !!utr);
+    if (utrs.length > 0) {
+      const { data } = await supabase
+        .from('bank_statement_entries')
+        .select('utr, amount, transaction_date, matched_order_id')
+        .in('utr', utrs);
+      const rows = data || [];
+
+      // A credit imported before the shopper typed in their UTR is matched the next time the queue loads
+      const reconcilable = pending.flatMap((order) =>
+        order.expectedAmount != null ? [{ ...order, expectedAmount: order.expectedAmount }] : []
+      );
+      const unmatched = rows
+        .filter((row) => !row.matched_order_id)
+        .map((row) => ({ utr: row.utr, amount: Number(row.amount), transactionDate: row.transaction_date, description: '' }));
+      for (const { order, entry } of matchStatementEntries(reconcilable, unmatched)) {
+        const { error: matchError } = await supabase
+          .from('bank_statement_entries')
+          .update({ matched_order_id: order.id })
+          .eq('utr', entry.utr)
+          .is('matched_order_id', null);
+        if (matchError) {
+          console.error('Error matching statement entry:', matchError);
+          continue;
+        }
+        const row = rows.find((candidate) => candidate.utr === entry.utr);
+        if (row) row.matched_order_id = order.id;
+      }
+
+      setStatementRows(rows);
+    } else {
+      setStatementRows([]);
+    }
+
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleImportStatement = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const entries = parseBankStatement(await file.text());
+      if (entries.length === 0) {
+        throw new Error('No credit entries with a UTR were found in this file');
+      }
+
+      // Re-importing an overlapping statement keeps the rows (and matches) already stored
+      const { error: insertError } = await supabase
+        .from('bank_statement_entries')
+        .upsert(
+          entries.map((entry) => ({
+            utr: entry.utr,
+            amount: entry.amount,
+            transaction_date: entry.transactionDate,
+            description: entry.description,
+            imported_by: user?.id,
+          })),
+          { onConflict: 'utr', ignoreDuplicates: true }
+        );
+      if (insertError) throw insertError;
+
+      // Counted here for the summary; fetchQueue stores the matches
+      const reconcilable = orders.flatMap((order) =>
+        order.expectedAmount != null ? [{ ...order, expectedAmount: order.expectedAmount }] : []
+      );
+      const matches = matchStatementEntries(reconcilable, entries);
+
+      toast({
+        title: 'Statement imported',
+        description: `${entries.length} credit${entries.length === 1 ? '' : 's'} read, ${matches.length} order${matches.length === 1 ? '' : 's'} matched`,
+      });
+      fetchQueue();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Could not import statement';
+      toast({ title: 'Import failed', description: message, variant: 'destructive' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Only moves orders still awaiting verification, so a payment approved or rejected elsewhere is left alone
+  const verifyOrder = async (order: PendingOrder, approved: boolean) => {
+    const isCod = parsePaymentId(order.paymentId)?.method === 'cod';
+    const { data: updated, error } = await supabase
+      .from('orders')
+      .update({
+        payment_status: approved ? (isCod ? 'cod_fee_paid' : 'paid') : 'rejected',
+        // Shoppers can cancel while the payment is still being checked; those orders stay cancelled
+        // and an approved payment is refunded from the Orders tab
+        ...(order.status === 'pending_payment' ? { status: approved ? 'confirmed' : 'cancelled' } : {}),
+        payment_verified_at: new Date().toISOString(),
+        payment_verified_by: user?.id,
+      })
+      .eq('id', order.id)
+      .eq('payment_status', 'awaiting_verification')
+      .select('id');
+    if (error) throw error;
+    if (!updated || updated.length === 0) {
+      throw new Error(`Order ${order.id.slice(0, 8)} is no longer awaiting verification`);
+    }
+  };
+
+  const handleVerify = async (order: PendingOrder, approved: boolean) => {
+    setProcessingId(order.id);
+    try {
+      await verifyOrder(order, approved);
+      toast({ title: approved ? 'Payment approved' : 'Payment rejected' });
+      fetchQueue();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Could not update order';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const matchedEntryFor = (order: PendingOrder) =>
+    statementRows.find((row) => row.matched_order_id === order.id);
+
+  const statementEntryFor = (order: PendingOrder) =>
+    statementRows.find((row) => row.utr === order.utr);
+
+  const matchedOrders = orders.filter((order) => matchedEntryFor(order));
+
+  const handleApproveMatched = async () => {
+    setProcessingId('all');
+    try {
+      for (const order of matchedOrders) {
+        await verifyOrder(order, true);
+      }
+      toast({ title: `${matchedOrders.length} payment${matchedOrders.length === 1 ? '' : 's'} approved` });
+      fetchQueue();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Could not update orders';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Scan & Pay Reconciliation</CardTitle>
+          <CardDescription>
+            Orders paid by UPI scan stay unverified until their UTR is found on the bank statement.
+            Import a statement CSV to match them automatically.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImportStatement}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={importing}>
+            {importing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSpreadsheet className="h-4 w-4 mr-2" />}
+            Import Statement
+          </Button>
+          <Button onClick={handleApproveMatched} disabled={matchedOrders.length === 0 || processingId !== null}>
+            <Check className="h-4 w-4 mr-2" />
+            Approve Matched ({matchedOrders.length})
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : orders.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No payments awaiting verification</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order ID</TableHead>
+                <TableHead>UTR</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Statement</TableHead>
+                <TableHead>Placed</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => {
+                const matched = matchedEntryFor(order);
+                const entry = matched || statementEntryFor(order);
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell>
+                      <p className="font-mono">{order.id.slice(0, 8)}...</p>
+                      {order.reference && <p className="text-xs text-muted-foreground font-mono">{order.reference}</p>}
+                      {order.status === 'cancelled' && <Badge variant="outline">Cancelled by customer</Badge>}
+                    </TableCell>
+                    <TableCell className="font-mono">{order.utr || '—'}</TableCell>
+                    <TableCell>{order.expectedAmount != null ? `₹${order.expectedAmount}` : '—'}</TableCell>
+                    <TableCell>
+                      {entry ? (
+                        <div className="space-y-1">
+                          <Badge variant={matched ? 'default' : 'destructive'}>
+                            {matched ? 'Matched' : 'Amount mismatch'}
+                          </Badge>
+                          <p className="text-xs text-muted-foreground">
+                            ₹{entry.amount}{entry.transaction_date ? ` on ${entry.transaction_date}` : ''}
+                          </p>
+                        </div>
+                      ) : (
+                        <Badge variant="secondary">Not found</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(order.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleVerify(order, true)}
+                          disabled={processingId !== null}
+                        >
+                          {processingId === order.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => handleVerify(order, false)}
+                          disabled={processingId !== null}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaymentReconciliation;
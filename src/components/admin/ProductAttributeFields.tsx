@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CategoryAttribute, fetchCategoryAttributes } from '@/lib/attributes';
+
+interface ProductAttributeFieldsProps {
+  categoryId: string;
+  // Keyed by attribute id
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm';
+
+// Inputs for the specifications of the selected category, one per attribute and shaped by its type
+const ProductAttributeFields: React.FC<ProductAttributeFieldsProps> = ({ categoryId, values, onChange }) => {
+  const [attributes, setAttributes] = useState<CategoryAttribute[]>([]);
+
+  useEffect(() => {
+    if (!categoryId) {
+      setAttributes([]);
+      return;
+    }
+    fetchCategoryAttributes(categoryId)
+      .then(setAttributes)
+      .catch((error) => console.error('Error fetching category attributes:', error));
+  }, [categoryId]);
+
+  if (attributes.length === 0) return null;
+
+  const setValue = (attributeId: string, value: string) => onChange({ ...values, [attributeId]: value });
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <Label>Specifications</Label>
+      <div className="grid grid-cols-2 gap-4">
+        {attributes.map((attribute) => (
+          <div key={attribute.id}>
+            <Label className="text-xs">
+              {attribute.name}
+              {attribute.unit && ` (${attribute.unit})`}
+            </Label>
+            {attribute.data_type === 'boolean' || attribute.data_type === 'select' ? (
+              <select
+                className={selectClassName}
+                value={values[attribute.id] ?? ''}
+                onChange={(e) => setValue(attribute.id, e.target.value)}
+              >
+                <option value="">Not set</option>
+                {attribute.data_type === 'boolean' ? (
+                  <>
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                  </>
+                ) : (
+                  attribute.options.map((option) => <option key={option} value={option}>{option}</option>)
+                )}
+              </select>
+            ) : (
+              <Input
+                type={attribute.data_type === 'number' ? 'number' : 'text'}
+                value={values[attribute.id] ?? ''}
+                onChange={(e) => setValue(attribute.id, e.target.value)}
+              />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProductAttributeFields;
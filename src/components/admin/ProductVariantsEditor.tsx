@@ -0,0 +1,119 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Plus, X } from 'lucide-react';
+import { parseVariantAxes, VariantDraft } from '@/lib/variants';
+
+interface ProductVariantsEditorProps {
+  axes: string;
+  onAxesChange: (axes: string) => void;
+  variants: VariantDraft[];
+  onVariantsChange: (variants: VariantDraft[]) => void;
+  // Prefilled into new variants
+  sellingPrice: string;
+  originalPrice: string;
+}
+
+const ProductVariantsEditor: React.FC<ProductVariantsEditorProps> = ({
+  axes,
+  onAxesChange,
+  variants,
+  onVariantsChange,
+  sellingPrice,
+  originalPrice,
+}) => {
+  const axisNames = parseVariantAxes(axes);
+
+  const addVariant = () => {
+    onVariantsChange([
+      ...variants,
+      {
+        options: {},
+        sku: '',
+        selling_price: sellingPrice,
+        original_price: originalPrice,
+        stock_quantity: '0',
+        image_urls: '',
+        is_active: true,
+      },
+    ]);
+  };
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const removeVariant = (index: number) => {
+    onVariantsChange(variants.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <Label>Variant Options</Label>
+        <Input
+          placeholder="e.g. Colour, Storage"
+          value={axes}
+          onChange={(e) => onAxesChange(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Leave empty to sell the product without options. With variants, the listing shows the cheapest variant's
+          price and their combined stock.
+        </p>
+      </div>
+
+      {axisNames.length > 0 && (
+        <>
+          {variants.map((variant, index) => (
+            <div key={variant.id ?? `new_${index}`} className="space-y-2 p-3 border rounded-lg bg-muted/30">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Variant {index + 1}</span>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`variant_active_${index}`} className="text-xs font-normal">Active</Label>
+                  <Switch
+                    id={`variant_active_${index}`}
+                    checked={variant.is_active}
+                    onCheckedChange={(checked) => updateVariant(index, { is_active: checked })}
+                  />
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeVariant(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {axisNames.map((axis) => (
+                  <div key={axis}>
+                    <Label className="text-xs">{axis}</Label>
+                    <Input
+                      value={variant.options[axis] ?? ''}
+                      onChange={(e) => updateVariant(index, { options: { ...variant.options, [axis]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+                <div><Label className="text-xs">SKU</Label><Input value={variant.sku} onChange={(e) => updateVariant(index, { sku: e.target.value })} /></div>
+                <div><Label className="text-xs">Stock</Label><Input type="number" min="0" value={variant.stock_quantity} onChange={(e) => updateVariant(index, { stock_quantity: e.target.value })} /></div>
+                <div><Label className="text-xs">Original Price (₹)</Label><Input type="number" value={variant.original_price} onChange={(e) => updateVariant(index, { original_price: e.target.value })} /></div>
+                <div><Label className="text-xs">Selling Price (₹)</Label><Input type="number" value={variant.selling_price} onChange={(e) => updateVariant(index, { selling_price: e.target.value })} /></div>
+              </div>
+              <div>
+                <Label className="text-xs">Image URLs</Label>
+                <Input
+                  placeholder="Comma separated; the product images are used when empty"
+                  value={variant.image_urls}
+                  onChange={(e) => updateVariant(index, { image_urls: e.target.value })}
+                />
+              </div>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={addVariant}>
+            <Plus className="h-4 w-4 mr-1" /> Add Variant
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ProductVariantsEditor;
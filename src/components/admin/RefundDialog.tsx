@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { getFunctionErrorMessage } from '@/lib/functions';
+import { getRefundStatusVariant, REFUNDABLE_PAYMENT_STATUSES } from '@/lib/payments';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Check, Loader2, RefreshCw, Undo2 } from 'lucide-react';
+
+export interface RefundRecord {
+  id: string;
+  amount: number;
+  reason: string | null;
+  method: string;
+  status: string;
+  created_at: string;
+}
+
+export interface RefundableOrder {
+  id: string;
+  total_amount: number;
+  payment_status: string;
+  checkout_sessions?: { amount: number }[];
+  refunds?: RefundRecord[];
+}
+
+interface RefundDialogProps {
+  order: RefundableOrder;
+  onRefunded: () => void;
+}
+
+const RefundDialog: React.FC<RefundDialogProps> = ({ order, onRefunded }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [refreshingId, setRefreshingId] = useState<string | null>(null);
+
+  // COD orders only collected the confirmation charge online
+  const paidAmount = Number(order.checkout_sessions?.[0]?.amount ?? order.total_amount);
+  const refunds = order.refunds ?? [];
+  const refunded = refunds
+    .filter((refund) => refund.status === 'pending' || refund.status === 'processed')
+    .reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const remaining = Math.max(0, Math.round((paidAmount - refunded) * 100) / 100);
+  const canRefund = REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status) && remaining > 0;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setAmount(String(remaining));
+      setReason('');
+    }
+  };
+
+  const handleRefund = async () => {
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('cashfree-payment', {
+        body: { action: 'create_refund', orderId: order.id, amount: Number(amount), reason: reason.trim() },
+      });
+
+      if (error) throw new Error(await getFunctionErrorMessage(error));
+      if (!data.success) throw new Error(data.error || 'Failed to create refund');
+
+      toast({
+        title: 'Refund issued',
+        description: data.status === 'processed' ? 'The refund has been processed.' : 'The refund is being processed.',
+      });
+      setOpen(false);
+      onRefunded();
+    } catch (error: unknown) {
+      toast({
+        title: 'Refund failed',
+        description: error instanceof Error ? error.message : 'Failed to create refund',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  // Gateway refunds are refreshed from Cashfree; manual ones are marked as sent by the admin
+  const handleRefreshStatus = async (refund: RefundRecord) => {
+    setRefreshingId(refund.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('cashfree-payment', {
+        body: { action: refund.method === 'manual' ? 'complete_refund' : 'get_refund_status', refundId: refund.id },
+      });
+
+      if (error) throw new Error(await getFunctionErrorMessage(error));
+      if (!data.success) throw new Error(data.error || 'Failed to fetch refund status');
+
+      onRefunded();
+    } catch (error: unknown) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to fetch refund status',
+        variant: 'destructive',
+      });
+    } finally {
+      setRefreshingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!canRefund && refunds.length === 0}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          Refund
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Refund Order {order.id.slice(0, 8)}...</DialogTitle>
+          <DialogDescription>
+            ₹{paidAmount} paid online, ₹{refunded} refunded so far.
+          </DialogDescription>
+        </DialogHeader>
+
+        {refunds.length > 0 && (
+          <div className="space-y-2">
+            <Label>Previous refunds</Label>
+            {refunds.map((refund) => (
+              <div key={refund.id} className="flex items-center justify-between gap-2 text-sm border rounded-md p-2">
+                <div>
+                  <p className="font-medium">₹{refund.amount} <span className="text-muted-foreground font-normal">({refund.method})</span></p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(refund.created_at).toLocaleString()}{refund.reason ? ` · ${refund.reason}` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={getRefundStatusVariant(refund.status)}>{refund.status}</Badge>
+                  {refund.status === 'pending' && (
+                    refund.method === 'manual' ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRefreshStatus(refund)}
+                        disabled={refreshingId === refund.id}
+                      >
+                        {refreshingId === refund.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Check className="h-4 w-4 mr-2" />}
+                        Mark sent
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRefreshStatus(refund)}
+                        disabled={refreshingId === refund.id}
+                      >
+                        <RefreshCw className={`h-4 w-4 ${refreshingId === refund.id ? 'animate-spin' : ''}`} />
+                      </Button>
+                    )
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {canRefund ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund_amount">Amount (₹)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="refund_amount"
+                  type="number"
+                  min="0"
+                  max={remaining}
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+                <Button variant="outline" onClick={() => setAmount(String(remaining))}>
+                  Full
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">Up to ₹{remaining} can still be refunded.</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund_reason">Reason</Label>
+              <Input
+                id="refund_reason"
+                placeholder="Optional note for the customer"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+            <Button
+              className="w-full"
+              onClick={handleRefund}
+              disabled={submitting || !(Number(amount) > 0) || Number(amount) > remaining}
+            >
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Refund ₹{Number(amount) || 0}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Nothing left to refund on this order.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RefundDialog;
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getReturnStatusVariant,
+  RETURN_PHOTOS_BUCKET,
+  RETURN_STATUS_LABELS,
+  RETURN_STATUS_TRANSITIONS,
+  ReturnRequest,
+  ReturnRequestStatus,
+} from '@/lib/returns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+
+interface QueuedReturnRequest extends ReturnRequest {
+  order_id: string;
+  order_items: { product_name: string; price: number } | null;
+}
+
+const ACTION_LABELS: Partial<Record<ReturnRequestStatus, string>> = {
+  approved: 'Approve',
+  rejected: 'Reject',
+  pickup_scheduled: 'Schedule Pickup',
+  closed: 'Close',
+};
+
+const ReturnRequests = () => {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<QueuedReturnRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showResolved, setShowResolved] = useState(false);
+  const [selected, setSelected] = useState<QueuedReturnRequest | null>(null);
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [pickupDate, setPickupDate] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchRequests = useCallback(async () => {
+    let query = supabase
+      .from('return_requests')
+      .select('*, order_items(product_name, price)')
+      .order('created_at', { ascending: true });
+    if (!showResolved) {
+      query = query.not('status', 'in', '(rejected,closed)');
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      setRequests(data as QueuedReturnRequest[]);
+    }
+    setLoading(false);
+  }, [toast, showResolved]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const openRequest = async (request: QueuedReturnRequest) => {
+    setSelected(request);
+    setPickupDate(request.pickup_date ?? '');
+    setNote('');
+    setPhotoUrls([]);
+
+    // The bucket is private, so photos are shown through short-lived signed URLs
+    if (request.photo_paths.length > 0) {
+      const { data } = await supabase.storage.from(RETURN_PHOTOS_BUCKET).createSignedUrls(request.photo_paths, 60 * 10);
+      setPhotoUrls((data ?? []).map((item) => item.signedUrl).filter((url): url is string => !!url));
+    }
+  };
+
+  const handleUpdate = async (status: ReturnRequestStatus) => {
+    if (!selected) return;
+    setSaving(true);
+    const { error } = await supabase.rpc('update_return_request', {
+      _request_id: selected.id,
+      _status: status,
+      _pickup_date: status === 'pickup_scheduled' ? pickupDate : undefined,
+      _note: note.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    toast({ title: 'Request updated', description: `Marked as ${RETURN_STATUS_LABELS[status].toLowerCase()}` });
+    setSelected(null);
+    fetchRequests();
+  };
+
+  const nextStatuses = selected ? RETURN_STATUS_TRANSITIONS[selected.status] : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Returns & Replacements</CardTitle>
+          <CardDescription>
+            Approve requests, schedule the pickup and close them once the item is back. Refunds for returns are
+            issued from the Orders tab.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch id="show_resolved" checked={showResolved} onCheckedChange={setShowResolved} />
+          <Label htmlFor="show_resolved">Show resolved</Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No return requests</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order ID</TableHead>
+                <TableHead>Item</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-mono">{request.order_id.slice(0, 8)}...</TableCell>
+                  <TableCell>
+                    {request.order_items?.product_name ?? '—'} × {request.quantity}
+                  </TableCell>
+                  <TableCell className="capitalize">{request.request_type}</TableCell>
+                  <TableCell>{request.reason}</TableCell>
+                  <TableCell>
+                    <Badge variant={getReturnStatusVariant(request.status)}>{RETURN_STATUS_LABELS[request.status]}</Badge>
+                  </TableCell>
+                  <TableCell>{new Date(request.created_at).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="sm" onClick={() => openRequest(request)}>
+                      Review
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {selected.request_type === 'return' ? 'Return' : 'Replacement'} · {selected.order_items?.product_name}
+                </DialogTitle>
+                <DialogDescription className="flex items-center gap-2">
+                  Order {selected.order_id.slice(0, 8)}...
+                  <Badge variant={getReturnStatusVariant(selected.status)}>{RETURN_STATUS_LABELS[selected.status]}</Badge>
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 text-sm">
+                <div>
+                  <p className="font-medium">{selected.reason} · Qty {selected.quantity}</p>
+                  {selected.details && <p className="text-muted-foreground mt-1">{selected.details}</p>}
+                  {selected.admin_note && <p className="text-xs mt-1">Note: {selected.admin_note}</p>}
+                </div>
+
+                {photoUrls.length > 0 && (
+                  <div className="grid grid-cols-4 gap-2">
+                    {photoUrls.map((url) => (
+                      <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                        <img src={url} alt="Return photo" className="w-full aspect-square object-cover rounded border" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {nextStatuses.length > 0 ? (
+                  <>
+                    {nextStatuses.includes('pickup_scheduled') && (
+                      <div className="space-y-2">
+                        <Label htmlFor="pickup_date">Pickup date</Label>
+                        <Input
+                          id="pickup_date"
+                          type="date"
+                          value={pickupDate}
+                          onChange={(e) => setPickupDate(e.target.value)}
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="return_note">Note</Label>
+                      <Input
+                        id="return_note"
+                        placeholder="Optional, shown to the customer"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      {nextStatuses.map((status) => (
+                        <Button
+                          key={status}
+                          className="flex-1"
+                          variant={status === 'rejected' ? 'destructive' : 'default'}
+                          onClick={() => handleUpdate(status)}
+                          disabled={saving || (status === 'pickup_scheduled' && !pickupDate)}
+                        >
+                          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                          {ACTION_LABELS[status]}
+                        </Button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">This request is resolved.</p>
+                )}
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ReturnRequests;
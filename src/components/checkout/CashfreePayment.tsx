@@ -3,11 +3,13 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Loader2, CreditCard, Shield } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/lib/functions';
 import { useToast } from '@/hooks/use-toast';
 
 interface CashfreePaymentProps {
+  // The cart total, replaced by the session's amount once the server has priced it
   amount: number;
-  orderId: string;
+  createCheckoutSession: () => Promise<{ id: string; amount: number }>;
   customerName: string;
   customerEmail: string;
   customerPhone: string;
@@ -18,7 +20,7 @@ interface CashfreePaymentProps {
 
 const CashfreePayment: React.FC<CashfreePaymentProps> = ({
   amount,
-  orderId,
+  createCheckoutSession,
   customerName,
   customerEmail,
   customerPhone,
@@ -28,17 +30,32 @@ const CashfreePayment: React.FC<CashfreePaymentProps> = ({
 }) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const [sessionAmount, setSessionAmount] = useState<number | null>(null);
+  const amountDue = sessionAmount ?? amount;
 
   const handlePayment = async () => {
     setLoading(true);
 
     try {
+      // Persist the checkout before leaving the site; the amount charged is taken from it server-side
+      const session = await createCheckoutSession();
+      const checkoutSessionId = session.id;
+
+      // Prices can change after the cart was loaded. Show the shopper the real amount before charging it.
+      if (session.amount !== amountDue) {
+        setSessionAmount(session.amount);
+        toast({
+          title: 'Order total updated',
+          description: `The amount to pay is now ₹${session.amount.toLocaleString('en-IN')}. Please review and pay again.`,
+        });
+        return;
+      }
+
       // Create order via edge function
       const { data, error } = await supabase.functions.invoke('cashfree-payment', {
         body: {
           action: 'create_order',
-          orderId: `order_${orderId}_${Date.now()}`,
-          orderAmount: amount,
+          checkoutSessionId,
           customerName,
           customerEmail,
           customerPhone,
@@ -46,12 +63,16 @@ const CashfreePayment: React.FC<CashfreePaymentProps> = ({
         },
       });
 
-      if (error) throw new Error(error.message);
+      if (error) throw new Error(await getFunctionErrorMessage(error));
       if (!data.success) throw new Error(data.error || 'Failed to create payment');
 
-      console.log('Cashfree order created:', data);
+      // Local stand-in gateway hosts its own checkout page
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
 
-      // Load Cashfree checkout
+      // Load Cashfree checkout in the same mode (sandbox/production) the order was created in
       const checkoutOptions = {
         paymentSessionId: data.sessionId,
         redirectTarget: '_self',
@@ -60,7 +81,7 @@ const CashfreePayment: React.FC<CashfreePaymentProps> = ({
       // @ts-ignore - Cashfree SDK loaded from script
       if (window.Cashfree) {
         // @ts-ignore
-        const cashfree = window.Cashfree({ mode: 'production' }); // Change to 'sandbox' for testing
+        const cashfree = window.Cashfree({ mode: data.mode });
         cashfree.checkout(checkoutOptions);
       } else {
         // Fallback: redirect to payment link
@@ -74,20 +95,20 @@ const CashfreePayment: React.FC<CashfreePaymentProps> = ({
         script.src = 'https://sdk.cashfree.com/js/v3/cashfree.js';
         script.onload = () => {
           // @ts-ignore
-          const cashfree = window.Cashfree({ mode: 'production' });
+          const cashfree = window.Cashfree({ mode: data.mode });
           cashfree.checkout(checkoutOptions);
         };
         document.body.appendChild(script);
       }
 
-    } catch (error: any) {
-      console.error('Payment error:', error);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Something went wrong';
       toast({
         title: 'Payment Failed',
-        description: error.message || 'Something went wrong',
+        description: message,
         variant: 'destructive',
       });
-      onPaymentFailure(error.message);
+      onPaymentFailure(message);
     } finally {
       setLoading(false);
     }
@@ -116,7 +137,7 @@ const CashfreePayment: React.FC<CashfreePaymentProps> = ({
             <div className="flex justify-between items-center">
               <span className="text-gray-600">Amount to Pay</span>
               <span className="text-2xl font-bold text-green-600">
-                ₹{amount.toLocaleString('en-IN')}
+                ₹{amountDue.toLocaleString('en-IN')}
               </span>
             </div>
           </div>
@@ -135,7 +156,7 @@ const CashfreePayment: React.FC<CashfreePaymentProps> = ({
           ) : (
             <>
               <CreditCard className="h-5 w-5 mr-2" />
-              Pay ₹{amount.toLocaleString('en-IN')} with Cashfree
+              Pay ₹{amountDue.toLocaleString('en-IN')} with Cashfree
             </>
           )}
         </Button>
@@ -1,16 +1,28 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { QrCode, Check, Copy, CheckCircle2 } from 'lucide-react';
+import { QrCode, Check, Copy, CheckCircle2, Loader2, Smartphone, Clock, RotateCcw } from 'lucide-react';
 import scanToPayIcon from '@/assets/scan-to-pay-icon.png';
 import { useToast } from '@/hooks/use-toast';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { useCountdown } from '@/hooks/use-countdown';
+import { buildUpiAppLink, buildUpiUri, getPaymentReference, UPI_APPS } from '@/lib/upi';
+
+interface PaymentSession {
+  id: string;
+  expiresAt: string | null;
+  amount: number;
+}
 
 interface ScanToPaymentProps {
+  // The cart total, shown until the checkout session has been priced
   amount: number;
   qrCodeUrl: string;
-  onPaymentConfirm: (utrNumber: string) => void;
+  createCheckoutSession: () => Promise<PaymentSession>;
+  onPaymentConfirm: (checkoutSessionId: string, utrNumber: string) => void;
   disabled?: boolean;
   upiId?: string;
   merchantName?: string;
@@ -19,33 +31,50 @@ interface ScanToPaymentProps {
 const ScanToPayment: React.FC<ScanToPaymentProps> = ({
   amount,
   qrCodeUrl,
+  createCheckoutSession,
   onPaymentConfirm,
   disabled = false,
-  upiId = 'merchant@paytm',
+  upiId,
   merchantName = 'Flipkart',
 }) => {
   const { toast } = useToast();
+  const isMobile = useIsMobile();
   const [showPaymentUI, setShowPaymentUI] = useState(false);
+  const [startingPayment, setStartingPayment] = useState(false);
+  const [session, setSession] = useState<PaymentSession | null>(null);
   const [utrNumber, setUtrNumber] = useState('');
   const [copied, setCopied] = useState(false);
-  const [timeLeft, setTimeLeft] = useState({ minutes: 9, seconds: 59 });
-
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeLeft((prev) => {
-        if (prev.seconds > 0) {
-          return { ...prev, seconds: prev.seconds - 1 };
-        } else if (prev.minutes > 0) {
-          return { minutes: prev.minutes - 1, seconds: 59 };
-        } else {
-          return { minutes: 9, seconds: 59 };
-        }
+  // The payment window comes from the checkout session, so it survives re-renders and cannot be reset
+  const timeLeft = useCountdown(session?.expiresAt ?? null);
+  const paymentReference = session ? getPaymentReference(session.id) : null;
+  // The QR asks for exactly what the server will reconcile against
+  const amountDue = session?.amount ?? amount;
+
+  // The checkout is saved first so the QR can carry its reference in the transaction note.
+  // Starting again after the window has lapsed opens a fresh session with a new window.
+  const startPayment = async () => {
+    setStartingPayment(true);
+    try {
+      setSession(await createCheckoutSession());
+      setShowPaymentUI(true);
+    } catch (error: unknown) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to start payment',
+        variant: 'destructive',
       });
-    }, 1000);
-    return () => clearInterval(timer);
-  }, []);
+    } finally {
+      setStartingPayment(false);
+    }
+  };
+
+  // Without a configured UPI ID the uploaded static QR is shown instead
+  const upiUri = upiId && paymentReference
+    ? buildUpiUri({ upiId, merchantName, amount: amountDue, note: paymentReference })
+    : null;
 
   const copyUpiId = async () => {
+    if (!upiId) return;
     try {
       await navigator.clipboard.writeText(upiId);
       setCopied(true);
@@ -64,87 +93,162 @@ const ScanToPayment: React.FC<ScanToPaymentProps> = ({
   };
 
   const handleConfirmPayment = () => {
-    if (utrNumber.trim().length < 6) {
+    if (!session || timeLeft.expired) return;
+
+    // UPI transaction references (UTR / RRN) are always 12 digits
+    if (!/^\d{12}$/.test(utrNumber.trim())) {
       toast({
         title: 'Enter UTR Number',
-        description: 'Please enter a valid UTR/Transaction number (min 6 digits)',
+        description: 'Please enter the 12-digit UTR/Transaction number of your payment',
         variant: 'destructive',
       });
       return;
     }
-    onPaymentConfirm(utrNumber);
+    onPaymentConfirm(session.id, utrNumber.trim());
   };
 
   if (showPaymentUI) {
     return (
       <Card className="mt-4">
         <CardContent className="p-4 space-y-4">
-          {/* QR Code Section */}
-          <div className="bg-gradient-to-b from-green-50 to-white rounded-lg p-4 text-center border border-green-100">
-            <div className="flex items-center justify-center gap-2 mb-3">
-              <QrCode className="h-5 w-5 text-green-600" />
-              <span className="font-semibold text-green-800">Scan QR Code to Pay</span>
+          {/* Payment window */}
+          {session?.expiresAt && (
+            <div className={`rounded-lg p-3 text-center border ${timeLeft.expired ? 'bg-red-50 border-red-100' : 'bg-gradient-to-r from-orange-50 to-yellow-50'}`}>
+              <p className="text-base flex items-center justify-center gap-2">
+                <Clock className={`h-4 w-4 ${timeLeft.expired ? 'text-red-600' : 'text-orange-600'}`} />
+                {timeLeft.expired ? (
+                  <span className="text-red-700 font-medium">Payment window expired</span>
+                ) : (
+                  <>
+                    <span className="text-gray-700">Complete payment within</span>
+                    <span className="text-orange-600 font-bold text-lg">
+                      {String(timeLeft.minutes).padStart(2, '0')}:{String(timeLeft.seconds).padStart(2, '0')}
+                    </span>
+                  </>
+                )}
+              </p>
             </div>
+          )}
 
-            <div className="bg-white p-3 rounded-lg inline-block mx-auto shadow-md border">
-              <img
-                src={qrCodeUrl}
-                alt="Payment QR Code"
-                className="w-48 h-48 object-contain mx-auto"
-                onError={(e) => {
-                  (e.target as HTMLImageElement).src =
-                    'https://via.placeholder.com/200x200?text=QR+Code';
-                }}
-              />
+          {timeLeft.expired ? (
+            <div className="text-center space-y-3 py-2">
+              <p className="text-sm text-muted-foreground">
+                This QR code is no longer valid. If you have not paid yet, start again to get a new one.
+              </p>
+              <Button
+                onClick={startPayment}
+                className="w-full bg-green-600 hover:bg-green-700 text-white"
+                disabled={disabled || startingPayment}
+              >
+                {startingPayment ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                )}
+                Restart payment
+              </Button>
             </div>
+          ) : (
+            <>
+            {/* QR Code Section */}
+            <div className="bg-gradient-to-b from-green-50 to-white rounded-lg p-4 text-center border border-green-100">
+              <div className="flex items-center justify-center gap-2 mb-3">
+                <QrCode className="h-5 w-5 text-green-600" />
+                <span className="font-semibold text-green-800">Scan QR Code to Pay</span>
+              </div>
 
-            <p className="text-lg font-bold text-green-600 mt-3">
-              ₹{amount.toLocaleString('en-IN')}
-            </p>
-            <p className="text-sm text-gray-500">Scan with any UPI app</p>
-          </div>
-
-          {/* UPI ID Copy Section */}
-          <div className="bg-gray-50 rounded-lg p-3 border">
-            <p className="text-xs text-gray-500 mb-2 text-center">Or copy UPI ID</p>
-            <div className="flex items-center gap-2 bg-white rounded-lg p-2 border">
-              <div className="flex-1 font-mono text-sm truncate text-gray-800 px-2">{upiId}</div>
-              <Button variant="ghost" size="sm" onClick={copyUpiId} className="shrink-0">
-                {copied ? (
-                  <CheckCircle2 className="h-4 w-4 text-green-600" />
+              <div className="bg-white p-3 rounded-lg inline-block mx-auto shadow-md border">
+                {upiUri ? (
+                  <QRCodeSVG value={upiUri} size={192} className="mx-auto" />
                 ) : (
-                  <Copy className="h-4 w-4" />
+                  <img
+                    src={qrCodeUrl}
+                    alt="Payment QR Code"
+                    className="w-48 h-48 object-contain mx-auto"
+                    onError={(e) => {
+                      (e.target as HTMLImageElement).src =
+                        'https://via.placeholder.com/200x200?text=QR+Code';
+                    }}
+                  />
                 )}
-              </Button>
+              </div>
+
+              <p className="text-lg font-bold text-green-600 mt-3">
+                ₹{amountDue.toLocaleString('en-IN')}
+              </p>
+              <p className="text-sm text-gray-500">Scan with any UPI app</p>
+              {paymentReference && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Payment reference: <span className="font-mono">{paymentReference}</span>
+                </p>
+              )}
             </div>
-          </div>
-
-          {/* UTR Input */}
-          <div className="space-y-2 pt-2 border-t">
-            <Label htmlFor="utr" className="text-sm font-semibold flex items-center gap-1">
-              Enter UTR/Transaction Number
-              <span className="text-red-500">*</span>
-            </Label>
-            <Input
-              id="utr"
-              placeholder="Enter 12-digit UTR number"
-              value={utrNumber}
-              onChange={(e) => setUtrNumber(e.target.value.replace(/[^0-9]/g, ''))}
-              className="font-mono text-center text-lg tracking-widest"
-              maxLength={20}
-            />
-            <p className="text-xs text-muted-foreground">
-              Find UTR in: App → Transaction History → Payment Details
-            </p>
-          </div>
 
-          <Button
-            onClick={handleConfirmPayment}
-            className="w-full bg-green-600 hover:bg-green-700 text-white py-6 text-lg"
-            disabled={disabled || utrNumber.trim().length < 6}
-          >
-            <Check className="h-5 w-5 mr-2" />I have completed the payment
-          </Button>
+            {/* Pay directly in an installed UPI app */}
+            {upiUri && isMobile && (
+              <div className="space-y-2">
+                <p className="text-xs text-gray-500 text-center flex items-center justify-center gap-1">
+                  <Smartphone className="h-3 w-3" />
+                  Or pay with an app on this phone
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                  {UPI_APPS.map((app) => (
+                    <Button key={app.id} variant="outline" asChild>
+                      <a href={buildUpiAppLink(app, upiUri)}>{app.name}</a>
+                    </Button>
+                  ))}
+                </div>
+                <Button variant="outline" className="w-full" asChild>
+                  <a href={upiUri}>Other UPI app</a>
+                </Button>
+              </div>
+            )}
+
+            {/* UPI ID Copy Section */}
+            {upiId && (
+              <div className="bg-gray-50 rounded-lg p-3 border">
+                <p className="text-xs text-gray-500 mb-2 text-center">Or copy UPI ID</p>
+                <div className="flex items-center gap-2 bg-white rounded-lg p-2 border">
+                  <div className="flex-1 font-mono text-sm truncate text-gray-800 px-2">{upiId}</div>
+                  <Button variant="ghost" size="sm" onClick={copyUpiId} className="shrink-0">
+                    {copied ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* UTR Input */}
+            <div className="space-y-2 pt-2 border-t">
+              <Label htmlFor="utr" className="text-sm font-semibold flex items-center gap-1">
+                Enter UTR/Transaction Number
+                <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="utr"
+                placeholder="Enter 12-digit UTR number"
+                value={utrNumber}
+                onChange={(e) => setUtrNumber(e.target.value.replace(/[^0-9]/g, ''))}
+                className="font-mono text-center text-lg tracking-widest"
+                maxLength={12}
+              />
+              <p className="text-xs text-muted-foreground">
+                Find UTR in: App → Transaction History → Payment Details
+              </p>
+            </div>
+
+            <Button
+              onClick={handleConfirmPayment}
+              className="w-full bg-green-600 hover:bg-green-700 text-white py-6 text-lg"
+              disabled={disabled || utrNumber.trim().length !== 12}
+            >
+              <Check className="h-5 w-5 mr-2" />I have completed the payment
+            </Button>
+            </>
+          )}
 
           <Button
             variant="ghost"
@@ -164,31 +268,25 @@ const ScanToPayment: React.FC<ScanToPaymentProps> = ({
   return (
     <Card className="mt-4">
       <CardContent className="p-0">
-        {/* Offer Timer */}
-        <div className="bg-gradient-to-r from-orange-50 to-yellow-50 p-3 text-center border-b">
-          <p className="text-base">
-            <span className="text-gray-700">🔥 Offer ends in </span>
-            <span className="text-orange-600 font-bold text-lg">
-              {String(timeLeft.minutes).padStart(2, '0')}:{String(timeLeft.seconds).padStart(2, '0')}
-            </span>
-          </p>
-        </div>
-
         <div className="p-4">
           <button
-            onClick={() => setShowPaymentUI(true)}
+            onClick={startPayment}
             className="w-full flex items-center gap-4 p-4 rounded-lg border-2 border-green-200 bg-green-50 hover:bg-green-100 transition-all"
-            disabled={disabled}
+            disabled={disabled || startingPayment}
           >
             <div className="w-12 h-12 rounded-lg overflow-hidden flex items-center justify-center">
-              <img src={scanToPayIcon} alt="Scan To Pay" className="w-12 h-12 object-contain" />
+              {startingPayment ? (
+                <Loader2 className="h-6 w-6 animate-spin text-green-600" />
+              ) : (
+                <img src={scanToPayIcon} alt="Scan To Pay" className="w-12 h-12 object-contain" />
+              )}
             </div>
             <div className="flex-1 text-left">
               <span className="text-lg font-medium text-gray-800">Scan & Pay</span>
               <p className="text-xs text-gray-500">Works with any UPI app</p>
             </div>
             <div className="text-lg font-bold text-green-600">
-              ₹{amount.toLocaleString('en-IN')}
+              ₹{amountDue.toLocaleString('en-IN')}
             </div>
           </button>
         </div>
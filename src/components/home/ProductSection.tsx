@@ -7,6 +7,7 @@ interface Product {
   selling_price: number;
   original_price: number;
   image_url: string | null;
+  stock_quantity: number;
 }
 
 interface ProductSectionProps {
@@ -27,6 +28,7 @@ const ProductSection: React.FC<ProductSectionProps> = ({ products }) => {
             sellingPrice={product.selling_price}
             originalPrice={product.original_price}
             imageUrl={product.image_url}
+            stockQuantity={product.stock_quantity}
           />
         ))}
       </div>
@@ -93,6 +93,9 @@ const Header = () => {
               </DropdownMenu>
             ) : (
               <div className="flex items-center gap-1">
+                <Button asChild variant="ghost" size="sm" className="text-white hover:bg-white/10 text-xs px-2 hidden sm:inline-flex">
+                  <Link to="/track-order">Track Order</Link>
+                </Button>
                 <Button asChild variant="ghost" size="sm" className="text-white hover:bg-white/10 text-xs px-2">
                   <Link to="/login">Login</Link>
                 </Button>
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { getFunctionErrorMessage } from '@/lib/functions';
+import { parsePaymentId } from '@/lib/payments';
+import { CANCELLATION_REASONS } from '@/lib/orderStatus';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Loader2, XCircle } from 'lucide-react';
+
+const OTHER_REASON = 'other';
+
+interface CancelOrderDialogProps {
+  order: { id: string; payment_id: string | null; payment_status: string };
+  onCancelled: () => void;
+}
+
+// What happens to the money already paid, matching what the cancel_order action refunds
+const getRefundNote = (order: CancelOrderDialogProps['order']) => {
+  const payment = parsePaymentId(order.payment_id);
+  switch (order.payment_status) {
+    case 'paid':
+      return payment?.method === 'scan'
+        ? 'We will send your payment back to the UPI account it came from.'
+        : 'Your payment will be refunded to the original payment method.';
+    case 'cod_fee_paid':
+      return 'The COD confirmation charge you paid will be refunded.';
+    case 'partially_refunded':
+      return 'The rest of your payment will be refunded.';
+    case 'awaiting_verification':
+      return 'If we receive your payment, it will be refunded.';
+    default:
+      return null;
+  }
+};
+
+const CancelOrderDialog: React.FC<CancelOrderDialogProps> = ({ order, onCancelled }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selectedReason, setSelectedReason] = useState('');
+  const [otherReason, setOtherReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const reason = selectedReason === OTHER_REASON ? otherReason.trim() : selectedReason;
+  const refundNote = getRefundNote(order);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setSelectedReason('');
+      setOtherReason('');
+    }
+  };
+
+  const handleCancel = async () => {
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('cashfree-payment', {
+        body: { action: 'cancel_order', orderId: order.id, reason },
+      });
+
+      if (error) throw new Error(await getFunctionErrorMessage(error));
+      if (!data.success) throw new Error(data.error || 'Failed to cancel order');
+
+      toast({
+        title: 'Order cancelled',
+        description: data.refund
+          ? `A refund of ₹${Number(data.refund.amount).toLocaleString('en-IN')} has been initiated.`
+          : data.refundError
+            ? 'We could not start your refund automatically. Our team will process it shortly.'
+            : undefined,
+      });
+      setOpen(false);
+      onCancelled();
+    } catch (error: unknown) {
+      toast({
+        title: 'Could not cancel order',
+        description: error instanceof Error ? error.message : 'Failed to cancel order',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <XCircle className="h-4 w-4 mr-2" />
+          Cancel order
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel this order?</DialogTitle>
+          <DialogDescription>{refundNote ?? 'Tell us why you are cancelling.'}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={selectedReason} onValueChange={setSelectedReason}>
+            {CANCELLATION_REASONS.map((option) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`reason_${option}`} />
+                <Label htmlFor={`reason_${option}`} className="font-normal">{option}</Label>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value={OTHER_REASON} id="reason_other" />
+              <Label htmlFor="reason_other" className="font-normal">Other</Label>
+            </div>
+          </RadioGroup>
+
+          {selectedReason === OTHER_REASON && (
+            <Input
+              placeholder="Tell us more"
+              value={otherReason}
+              onChange={(e) => setOtherReason(e.target.value)}
+              maxLength={200}
+            />
+          )}
+
+          <Button variant="destructive" className="w-full" onClick={handleCancel} disabled={submitting || !reason}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Cancel Order
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelOrderDialog;
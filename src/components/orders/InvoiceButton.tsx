@@ -0,0 +1,38 @@
+import React, { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { downloadInvoice } from '@/lib/invoice';
+import { Button } from '@/components/ui/button';
+import { FileText, Loader2 } from 'lucide-react';
+
+interface InvoiceButtonProps {
+  orderId: string;
+}
+
+const InvoiceButton: React.FC<InvoiceButtonProps> = ({ orderId }) => {
+  const { toast } = useToast();
+  const [downloading, setDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadInvoice(orderId);
+    } catch (error: unknown) {
+      toast({
+        title: 'Could not download invoice',
+        description: error instanceof Error ? error.message : 'Failed to generate invoice',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleDownload} disabled={downloading}>
+      {downloading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+      Invoice
+    </Button>
+  );
+};
+
+export default InvoiceButton;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  buildOrderTimeline,
+  formatOrderDateTime,
+  getOrderStatusColor,
+  getOrderStatusLabel,
+  StatusHistoryEntry,
+} from '@/lib/orderStatus';
+import { Check, ExternalLink, Truck } from 'lucide-react';
+
+interface OrderStatusCardProps {
+  order: {
+    status: string;
+    courier_name: string | null;
+    awb_number: string | null;
+    tracking_url: string | null;
+    cancellation_reason: string | null;
+    order_status_history: StatusHistoryEntry[];
+  };
+  className?: string;
+}
+
+const OrderStatusCard: React.FC<OrderStatusCardProps> = ({ order, className }) => {
+  const timeline = buildOrderTimeline(order.status, order.order_status_history);
+  const showShipment = !!order.awb_number && ['shipped', 'out_for_delivery', 'delivered', 'returned'].includes(order.status);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">Order Status</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="space-y-0">
+          {timeline.map((step, index) => (
+            <li key={step.status} className="flex gap-3">
+              <div className="flex flex-col items-center">
+                <div
+                  className={`h-6 w-6 rounded-full flex items-center justify-center ${
+                    step.done ? `${getOrderStatusColor(step.status)} text-white` : 'border-2 border-muted-foreground/30 bg-card'
+                  }`}
+                >
+                  {step.done && <Check className="h-3.5 w-3.5" />}
+                </div>
+                {index < timeline.length - 1 && (
+                  <div className={`w-0.5 flex-1 min-h-6 ${timeline[index + 1].done ? 'bg-primary' : 'bg-muted-foreground/30'}`} />
+                )}
+              </div>
+              <div className="pb-6">
+                <p className={step.done ? 'font-medium' : 'text-muted-foreground'}>{getOrderStatusLabel(step.status)}</p>
+                {step.reachedAt && (
+                  <p className="text-xs text-muted-foreground">{formatOrderDateTime(step.reachedAt)}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        {order.status === 'cancelled' && order.cancellation_reason && (
+          <p className="text-sm text-muted-foreground border-t pt-4">Reason for cancellation: {order.cancellation_reason}</p>
+        )}
+
+        {showShipment && (
+          <div className="border-t pt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="flex items-start gap-3">
+              <Truck className="h-5 w-5 text-muted-foreground mt-0.5" />
+              <div>
+                <p className="font-medium">{order.courier_name}</p>
+                <p className="text-sm text-muted-foreground">
+                  AWB <span className="font-mono">{order.awb_number}</span>
+                </p>
+              </div>
+            </div>
+            {order.tracking_url && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={order.tracking_url} target="_blank" rel="noopener noreferrer">
+                  Track shipment
+                  <ExternalLink className="h-4 w-4 ml-2" />
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderStatusCard;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_RETURN_PHOTOS, RETURN_PHOTOS_BUCKET, RETURN_REASONS, ReturnRequestType } from '@/lib/returns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Loader2, RotateCcw } from 'lucide-react';
+
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+
+interface ReturnRequestDialogProps {
+  item: { id: string; product_name: string; quantity: number };
+  userId: string;
+  onSubmitted: () => void;
+}
+
+const ReturnRequestDialog: React.FC<ReturnRequestDialogProps> = ({ item, userId, onSubmitted }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [requestType, setRequestType] = useState<ReturnRequestType>('return');
+  const [quantity, setQuantity] = useState(1);
+  const [reason, setReason] = useState('');
+  const [details, setDetails] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setRequestType('return');
+      setQuantity(1);
+      setReason('');
+      setDetails('');
+      setPhotos([]);
+    }
+  };
+
+  const handlePhotosChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    const valid = files.filter((file) => file.type.startsWith('image/') && file.size <= MAX_PHOTO_SIZE);
+    if (valid.length !== files.length) {
+      toast({ title: 'Some photos were skipped', description: 'Only images up to 5MB can be attached', variant: 'destructive' });
+    }
+    setPhotos(valid.slice(0, MAX_RETURN_PHOTOS));
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      // Photos go under the customer's own folder, which is all the storage policies let them write to
+      const photoPaths: string[] = [];
+      for (const [index, photo] of photos.entries()) {
+        const fileExt = photo.name.split('.').pop();
+        const filePath = `${userId}/${item.id}/${Date.now()}-${index}.${fileExt}`;
+        const { error: uploadError } = await supabase.storage.from(RETURN_PHOTOS_BUCKET).upload(filePath, photo);
+        if (uploadError) throw uploadError;
+        photoPaths.push(filePath);
+      }
+
+      const { error } = await supabase.rpc('create_return_request', {
+        _order_item_id: item.id,
+        _request_type: requestType,
+        _quantity: quantity,
+        _reason: reason,
+        _details: details.trim() || undefined,
+        _photo_paths: photoPaths,
+      });
+      if (error) throw error;
+
+      toast({
+        title: 'Request submitted',
+        description: `We will review your ${requestType === 'return' ? 'return' : 'replacement'} request shortly.`,
+      });
+      setOpen(false);
+      onSubmitted();
+    } catch (error: unknown) {
+      toast({
+        title: 'Could not submit request',
+        description: error instanceof Error ? error.message : 'Failed to submit request',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Return/Replace
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return or replace</DialogTitle>
+          <DialogDescription>{item.product_name}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup
+            value={requestType}
+            onValueChange={(value) => setRequestType(value as ReturnRequestType)}
+            className="grid grid-cols-2 gap-2"
+          >
+            <Label htmlFor="type_return" className="flex items-center gap-2 border rounded-md p-3 font-normal cursor-pointer">
+              <RadioGroupItem value="return" id="type_return" />
+              Return for refund
+            </Label>
+            <Label htmlFor="type_replacement" className="flex items-center gap-2 border rounded-md p-3 font-normal cursor-pointer">
+              <RadioGroupItem value="replacement" id="type_replacement" />
+              Replacement
+            </Label>
+          </RadioGroup>
+
+          {item.quantity > 1 && (
+            <div className="space-y-2">
+              <Label>Quantity</Label>
+              <Select value={String(quantity)} onValueChange={(value) => setQuantity(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: item.quantity }, (_, i) => i + 1).map((value) => (
+                    <SelectItem key={value} value={String(value)}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {RETURN_REASONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return_details">Details</Label>
+            <Textarea
+              id="return_details"
+              placeholder="Optional, describe the problem"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="return_photos">Photos</Label>
+            <Input id="return_photos" type="file" accept="image/*" multiple onChange={handlePhotosChange} />
+            <p className="text-xs text-muted-foreground">
+              {photos.length > 0
+                ? `${photos.length} photo${photos.length === 1 ? '' : 's'} selected`
+                : `Up to ${MAX_RETURN_PHOTOS} photos of the item and packaging`}
+            </p>
+          </div>
+
+          <Button className="w-full" onClick={handleSubmit} disabled={submitting || !reason}>
+            {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Submit Request
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnRequestDialog;
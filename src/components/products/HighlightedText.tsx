@@ -0,0 +1,22 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  // Text with matches wrapped in <mark></mark>, as returned by the search_products RPC
+  text: string;
+  className?: string;
+}
+
+// Renders the marks as elements and everything else as plain text, so product copy is never parsed as HTML
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => (
+  <span className={className}>
+    {text.split(/<mark>(.*?)<\/mark>/g).map((part, index) =>
+      index % 2 === 1 ? (
+        <mark key={index} className="bg-yellow-100 text-inherit">{part}</mark>
+      ) : (
+        part
+      )
+    )}
+  </span>
+);
+
+export default HighlightedText;
@@ -1,6 +1,8 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { Star } from 'lucide-react';
+import { isOutOfStock } from '@/lib/stock';
+import HighlightedText from './HighlightedText';
 
 interface ProductCardProps {
   id: string;
@@ -8,8 +10,13 @@ interface ProductCardProps {
   sellingPrice: number;
   originalPrice: number;
   imageUrl: string | null;
-  rating?: number;
+  // null hides the rating, for products nobody has rated yet
+  rating?: number | null;
   reviewCount?: number;
+  stockQuantity?: number;
+  // Search results pass the name and a description excerpt with the matched words marked
+  nameHighlight?: string;
+  snippet?: string | null;
 }
 
 const ProductCard: React.FC<ProductCardProps> = ({
@@ -20,6 +27,9 @@ const ProductCard: React.FC<ProductCardProps> = ({
   imageUrl,
   rating = 4.5,
   reviewCount = 3949,
+  stockQuantity,
+  nameHighlight,
+  snippet,
 }) => {
   const discountPercent = Math.round(((originalPrice - sellingPrice) / originalPrice) * 100);
 
@@ -27,20 +37,32 @@ const ProductCard: React.FC<ProductCardProps> = ({
     <Link to={`/product/${id}`} className="block">
       <div className="bg-white p-3 h-full flex flex-col">
         {/* Product Image */}
-        <div className="h-40 mb-3 flex items-center justify-center">
+        <div className="relative h-40 mb-3 flex items-center justify-center">
           <img
             src={imageUrl || 'https://via.placeholder.com/200x200?text=Product'}
             alt={name}
             className="w-full h-full object-contain"
           />
+          {stockQuantity !== undefined && isOutOfStock(stockQuantity) && (
+            <div className="absolute inset-0 flex items-center justify-center bg-white/70">
+              <span className="bg-gray-800 text-white text-xs font-medium px-2 py-1 rounded">
+                Out of stock
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Product Info */}
         <div className="flex-1 flex flex-col gap-1.5">
           {/* Product Name */}
           <h3 className="text-sm text-gray-800 line-clamp-2 leading-tight">
-            {name}
+            {nameHighlight ? <HighlightedText text={nameHighlight} /> : name}
           </h3>
+          {snippet && (
+            <p className="text-xs text-gray-500 line-clamp-2">
+              <HighlightedText text={snippet} />
+            </p>
+          )}
 
           {/* Discount & Original Price */}
           <div className="flex items-center gap-2 flex-wrap">
@@ -63,14 +85,16 @@ const ProductCard: React.FC<ProductCardProps> = ({
           </div>
 
           {/* Rating */}
-          <div className="flex items-center gap-1.5 mt-1">
-            <span className="bg-green-600 text-white text-xs px-1.5 py-0.5 rounded flex items-center gap-0.5">
-              {rating} <Star className="h-2.5 w-2.5 fill-current" />
-            </span>
-            <span className="text-gray-500 text-xs">
-              {reviewCount.toLocaleString('en-IN')} Ratings
-            </span>
-          </div>
+          {rating != null && (
+            <div className="flex items-center gap-1.5 mt-1">
+              <span className="bg-green-600 text-white text-xs px-1.5 py-0.5 rounded flex items-center gap-0.5">
+                {rating} <Star className="h-2.5 w-2.5 fill-current" />
+              </span>
+              <span className="text-gray-500 text-xs">
+                {reviewCount.toLocaleString('en-IN')} Ratings
+              </span>
+            </div>
+          )}
 
           {/* Free Delivery */}
           <p className="text-xs text-gray-600 mt-auto pt-2">
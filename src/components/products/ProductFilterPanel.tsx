@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { countActiveFilters, ProductFacets, ProductFilters } from '@/lib/productFilters';
+
+interface ProductFilterPanelProps {
+  filters: ProductFilters;
+  facets: ProductFacets | null;
+  onChange: (changes: Partial<ProductFilters>) => void;
+}
+
+const optionClassName = (selected: boolean) =>
+  `flex w-full items-center justify-between rounded px-2 py-1.5 text-sm text-left hover:bg-muted ${
+    selected ? 'font-medium text-[#2874f0]' : 'text-gray-700'
+  }`;
+
+// Shared by the desktop sidebar and the mobile filter drawer
+const ProductFilterPanel: React.FC<ProductFilterPanelProps> = ({ filters, facets, onChange }) => {
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() ?? '');
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() ?? '');
+
+  useEffect(() => {
+    setMinPrice(filters.minPrice?.toString() ?? '');
+    setMaxPrice(filters.maxPrice?.toString() ?? '');
+  }, [filters.minPrice, filters.maxPrice]);
+
+  const toggleCategory = (slug: string, checked: boolean) => {
+    onChange({
+      categories: checked ? [...filters.categories, slug] : filters.categories.filter((category) => category !== slug),
+    });
+  };
+
+  const applyPrice = () => {
+    onChange({
+      minPrice: minPrice.trim() === '' ? null : Number(minPrice),
+      maxPrice: maxPrice.trim() === '' ? null : Number(maxPrice),
+    });
+  };
+
+  const hasFilters = countActiveFilters(filters) > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold">Filters</h2>
+        {hasFilters && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-[#2874f0]"
+            onClick={() => onChange({ categories: [], minPrice: null, maxPrice: null, minDiscount: null, inStock: false })}
+          >
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      {facets && facets.categories.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-semibold uppercase text-muted-foreground">Categories</h3>
+          {facets.categories.map((category) => (
+            <div key={category.slug} className="flex items-center gap-2">
+              <Checkbox
+                id={`category_${category.slug}`}
+                checked={filters.categories.includes(category.slug)}
+                onCheckedChange={(checked) => toggleCategory(category.slug, checked === true)}
+              />
+              <Label htmlFor={`category_${category.slug}`} className="flex-1 font-normal">
+                {category.name}
+              </Label>
+              <span className="text-xs text-muted-foreground">{category.count}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h3 className="text-xs font-semibold uppercase text-muted-foreground">Price</h3>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min="0"
+            placeholder={facets?.price.min != null ? `₹${Math.floor(facets.price.min)}` : 'Min'}
+            value={minPrice}
+            onChange={(e) => setMinPrice(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && applyPrice()}
+          />
+          <span className="text-muted-foreground">to</span>
+          <Input
+            type="number"
+            min="0"
+            placeholder={facets?.price.max != null ? `₹${Math.ceil(facets.price.max)}` : 'Max'}
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && applyPrice()}
+          />
+        </div>
+        <Button variant="outline" size="sm" className="w-full" onClick={applyPrice}>
+          Apply
+        </Button>
+      </div>
+
+      {facets && (
+        <div className="space-y-1">
+          <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-2">Discount</h3>
+          {facets.discounts.map((discount) => {
+            const selected = filters.minDiscount === discount.min;
+            return (
+              <button
+                key={discount.min}
+                className={optionClassName(selected)}
+                disabled={discount.count === 0 && !selected}
+                onClick={() => onChange({ minDiscount: selected ? null : discount.min })}
+              >
+                <span className={discount.count === 0 && !selected ? 'text-muted-foreground' : ''}>
+                  {discount.min}% or more
+                </span>
+                <span className="text-xs text-muted-foreground">{discount.count}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="in_stock"
+          checked={filters.inStock}
+          onCheckedChange={(checked) => onChange({ inStock: checked === true })}
+        />
+        <Label htmlFor="in_stock" className="flex-1 font-normal">In stock only</Label>
+        {facets && <span className="text-xs text-muted-foreground">{facets.in_stock}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default ProductFilterPanel;
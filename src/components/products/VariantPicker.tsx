@@ -0,0 +1,61 @@
+import React from 'react';
+import { getAxisValues, ProductVariant, VariantOptions } from '@/lib/variants';
+import { isOutOfStock } from '@/lib/stock';
+
+interface VariantPickerProps {
+  axes: string[];
+  variants: ProductVariant[];
+  selection: VariantOptions;
+  onSelect: (options: VariantOptions) => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ axes, variants, selection, onSelect }) => {
+  // Keeps the other axes as they are when that combination exists, otherwise jumps to the first variant with the value
+  const selectValue = (axis: string, value: string) => {
+    const withValue = variants.filter((variant) => variant.options[axis] === value);
+    const match =
+      withValue.find((variant) => axes.every((other) => other === axis || variant.options[other] === selection[other])) ??
+      withValue.find((variant) => !isOutOfStock(variant.stock_quantity)) ??
+      withValue[0];
+    if (match) onSelect(match.options);
+  };
+
+  // A value is greyed out when no in-stock variant has it alongside the current choice on the other axes
+  const isAvailable = (axis: string, value: string) =>
+    variants.some(
+      (variant) =>
+        variant.options[axis] === value &&
+        !isOutOfStock(variant.stock_quantity) &&
+        axes.every((other) => other === axis || variant.options[other] === selection[other])
+    );
+
+  return (
+    <div className="space-y-4 mb-4">
+      {axes.map((axis) => (
+        <div key={axis}>
+          <p className="text-sm text-gray-600 mb-2">
+            {axis}: <span className="font-medium text-gray-900">{selection[axis]}</span>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {getAxisValues(variants, axis).map((value) => {
+              const selected = selection[axis] === value;
+              return (
+                <button
+                  key={value}
+                  onClick={() => selectValue(axis, value)}
+                  className={`px-3 py-1.5 rounded border text-sm ${
+                    selected ? 'border-[#2874f0] text-[#2874f0] font-medium' : 'border-gray-300 text-gray-800'
+                  } ${isAvailable(axis, value) ? '' : 'border-dashed text-gray-400 line-through'}`}
+                >
+                  {value}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -2,10 +2,16 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { isOutOfStock } from '@/lib/stock';
+import { formatVariantOptions, VariantOptions } from '@/lib/variants';
 
+// For a variant line, product carries the variant's prices, stock and first image
 interface CartItem {
   id: string;
   product_id: string;
+  variant_id: string | null;
+  // e.g. "Black, 128 GB"
+  variant_label: string | null;
   quantity: number;
   product: {
     id: string;
@@ -13,29 +19,65 @@ interface CartItem {
     selling_price: number;
     original_price: number;
     image_url: string | null;
+    stock_quantity: number;
+    low_stock_threshold: number;
   };
 }
 
+interface CartVariant {
+  id: string;
+  options: VariantOptions;
+  selling_price: number;
+  original_price: number;
+  stock_quantity: number;
+  image_urls: string[];
+}
+
 interface GuestCartItem {
   product_id: string;
+  variant_id?: string | null;
   quantity: number;
 }
 
 interface CartContextType {
   items: CartItem[];
   loading: boolean;
-  addToCart: (productId: string, quantity?: number) => Promise<void>;
+  addToCart: (productId: string, quantity?: number, variantId?: string | null) => Promise<void>;
   removeFromCart: (itemId: string) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   clearCart: () => Promise<void>;
   totalItems: number;
   totalAmount: number;
+  hasOutOfStockItems: boolean;
 }
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 const GUEST_CART_KEY = 'guest_cart';
 
+const isSameLine = (
+  a: { product_id: string; variant_id?: string | null },
+  b: { product_id: string; variant_id?: string | null }
+) => a.product_id === b.product_id && (a.variant_id ?? null) === (b.variant_id ?? null);
+
+const applyVariant = (
+  product: CartItem['product'] & { variant_axes: string[] },
+  variant: CartVariant | null
+): Pick<CartItem, 'variant_label' | 'product'> => {
+  const { variant_axes, ...rest } = product;
+  if (!variant) return { variant_label: null, product: rest };
+  return {
+    variant_label: formatVariantOptions(variant.options, variant_axes) || null,
+    product: {
+      ...rest,
+      selling_price: variant.selling_price,
+      original_price: variant.original_price,
+      stock_quantity: variant.stock_quantity,
+      image_url: variant.image_urls[0] ?? rest.image_url,
+    },
+  };
+};
+
 export const useCart = () => {
   const context = useContext(CartContext);
   if (!context) {
@@ -70,6 +112,44 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     localStorage.removeItem(GUEST_CART_KEY);
   };
 
+  const getLineName = (item: CartItem) =>
+    item.variant_label ? `${item.product.name} (${item.variant_label})` : item.product.name;
+
+  // Stock can drop while items sit in the cart: quantities above what is left are brought down to it.
+  // Sold out items stay in the cart, flagged, until the shopper removes them.
+  const reconcileStock = async (cartItems: CartItem[]) => {
+    const reduced = cartItems.filter(
+      (item) => !isOutOfStock(item.product.stock_quantity) && item.quantity > item.product.stock_quantity
+    );
+    if (reduced.length === 0) return cartItems;
+
+    if (user) {
+      await Promise.all(
+        reduced.map((item) =>
+          supabase.from('cart_items').update({ quantity: item.product.stock_quantity }).eq('id', item.id)
+        )
+      );
+    } else {
+      saveGuestCart(
+        getGuestCart().map((guestItem) => {
+          const item = reduced.find((r) => isSameLine(r, guestItem));
+          return item ? { ...guestItem, quantity: item.product.stock_quantity } : guestItem;
+        })
+      );
+    }
+
+    toast({
+      title: 'Cart updated',
+      description: reduced
+        .map((item) => `Only ${item.product.stock_quantity} left of ${getLineName(item)}`)
+        .join('. '),
+    });
+
+    return cartItems.map((item) =>
+      reduced.includes(item) ? { ...item, quantity: item.product.stock_quantity } : item
+    );
+  };
+
   // Fetch products for guest cart items
   const fetchGuestCartWithProducts = async () => {
     const guestCart = getGuestCart();
@@ -80,32 +160,38 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
     setLoading(true);
     const productIds = guestCart.map(item => item.product_id);
+    const variantIds = guestCart.flatMap(item => (item.variant_id ? [item.variant_id] : []));
     
-    const { data: products, error } = await supabase
-      .from('products')
-      .select('id, name, selling_price, original_price, image_url')
-      .in('id', productIds);
+    const [{ data: products, error }, { data: variants }] = await Promise.all([
+      supabase
+        .from('products')
+        .select('id, name, selling_price, original_price, image_url, stock_quantity, low_stock_threshold, variant_axes')
+        .in('id', productIds),
+      supabase
+        .from('product_variants')
+        .select('id, options, selling_price, original_price, stock_quantity, image_urls')
+        .in('id', variantIds),
+    ]);
 
     if (error) {
       console.error('Error fetching guest cart products:', error);
       setItems([]);
     } else {
-      const cartItems: CartItem[] = guestCart.map((item, index) => {
-        const product = products?.find(p => p.id === item.product_id);
+      // Lines whose product or variant has since been removed are dropped
+      const cartItems: CartItem[] = guestCart.filter(item =>
+        products?.some(p => p.id === item.product_id) && (!item.variant_id || variants?.some(v => v.id === item.variant_id))
+      ).map((item, index) => {
+        const product = products!.find(p => p.id === item.product_id)!;
+        const variant = (variants as CartVariant[] | null)?.find(v => v.id === item.variant_id) ?? null;
         return {
           id: `guest_${index}_${item.product_id}`,
           product_id: item.product_id,
+          variant_id: item.variant_id ?? null,
           quantity: item.quantity,
-          product: product || {
-            id: item.product_id,
-            name: 'Unknown Product',
-            selling_price: 0,
-            original_price: 0,
-            image_url: null,
-          },
+          ...applyVariant(product, variant),
         };
-      }).filter(item => item.product.name !== 'Unknown Product');
-      setItems(cartItems);
+      });
+      setItems(await reconcileStock(cartItems));
     }
     setLoading(false);
   };
@@ -120,13 +206,25 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       .select(`
         id,
         product_id,
+        variant_id,
         quantity,
         product:products (
           id,
           name,
           selling_price,
           original_price,
-          image_url
+          image_url,
+          stock_quantity,
+          low_stock_threshold,
+          variant_axes
+        ),
+        variant:product_variants (
+          id,
+          options,
+          selling_price,
+          original_price,
+          stock_quantity,
+          image_urls
         )
       `)
       .eq('user_id', user.id);
@@ -134,7 +232,11 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (error) {
       console.error('Error fetching cart:', error);
     } else {
-      setItems(data as unknown as CartItem[]);
+      const cartItems: CartItem[] = data.map(({ variant, product, ...item }) => ({
+        ...item,
+        ...applyVariant(product, variant as CartVariant | null),
+      }));
+      setItems(await reconcileStock(cartItems));
     }
     setLoading(false);
   };
@@ -147,12 +249,15 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     if (guestCart.length === 0) return;
 
     for (const item of guestCart) {
-      const { data: existing } = await supabase
+      const existingQuery = supabase
         .from('cart_items')
         .select('id, quantity')
         .eq('user_id', user.id)
-        .eq('product_id', item.product_id)
-        .maybeSingle();
+        .eq('product_id', item.product_id);
+      const { data: existing } = await (item.variant_id
+        ? existingQuery.eq('variant_id', item.variant_id)
+        : existingQuery.is('variant_id', null)
+      ).maybeSingle();
 
       if (existing) {
         await supabase
@@ -162,7 +267,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       } else {
         await supabase
           .from('cart_items')
-          .insert({ user_id: user.id, product_id: item.product_id, quantity: item.quantity });
+          .insert({ user_id: user.id, product_id: item.product_id, variant_id: item.variant_id ?? null, quantity: item.quantity });
       }
     }
 
@@ -177,17 +282,51 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   }, [user]);
 
-  const addToCart = async (productId: string, quantity = 1) => {
+  const addToCart = async (productId: string, quantity = 1, variantId: string | null = null) => {
+    const line = { product_id: productId, variant_id: variantId };
+    const { data: product } = await supabase
+      .from('products')
+      .select('name, stock_quantity, variant_axes')
+      .eq('id', productId)
+      .maybeSingle();
+
+    // Products with variants are sold per variant; the product itself has no price or stock of its own
+    if (product && product.variant_axes.length > 0 && !variantId) {
+      toast({
+        title: 'Choose an option',
+        description: `Pick ${product.variant_axes.join(' and ').toLowerCase()} for ${product.name} before adding it to your cart`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const { data: variant } = variantId
+      ? await supabase.from('product_variants').select('stock_quantity').eq('id', variantId).maybeSingle()
+      : { data: null };
+    const stock = variant?.stock_quantity ?? product?.stock_quantity ?? 0;
+    const inCart = items.find(item => isSameLine(item, line))?.quantity ?? 0;
+
+    if (product && inCart + quantity > stock) {
+      toast({
+        title: isOutOfStock(stock) ? 'Out of stock' : 'Not enough stock',
+        description: isOutOfStock(stock)
+          ? `${product.name} is currently unavailable`
+          : `Only ${stock} left of ${product.name}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     if (user) {
       // Logged-in user: use database
-      const existingItem = items.find(item => item.product_id === productId);
+      const existingItem = items.find(item => isSameLine(item, line));
       
       if (existingItem) {
         await updateQuantity(existingItem.id, existingItem.quantity + quantity);
       } else {
         const { error } = await supabase
           .from('cart_items')
-          .insert({ user_id: user.id, product_id: productId, quantity });
+          .insert({ user_id: user.id, product_id: productId, variant_id: variantId, quantity });
 
         if (error) {
           toast({
@@ -206,12 +345,12 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
     } else {
       // Guest user: use localStorage
       const guestCart = getGuestCart();
-      const existingIndex = guestCart.findIndex(item => item.product_id === productId);
+      const existingIndex = guestCart.findIndex(item => isSameLine(item, line));
       
       if (existingIndex >= 0) {
         guestCart[existingIndex].quantity += quantity;
       } else {
-        guestCart.push({ product_id: productId, quantity });
+        guestCart.push({ ...line, quantity });
       }
       
       saveGuestCart(guestCart);
@@ -244,7 +383,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const guestCart = getGuestCart();
       const item = items.find(i => i.id === itemId);
       if (item) {
-        const newCart = guestCart.filter(g => g.product_id !== item.product_id);
+        const newCart = guestCart.filter(g => !isSameLine(g, item));
         saveGuestCart(newCart);
         fetchGuestCartWithProducts();
       }
@@ -257,6 +396,16 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return;
     }
 
+    const current = items.find(i => i.id === itemId);
+    if (current && quantity > current.quantity && quantity > current.product.stock_quantity) {
+      toast({
+        title: 'Not enough stock',
+        description: `Only ${current.product.stock_quantity} left of ${getLineName(current)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     if (user) {
       const { error } = await supabase
         .from('cart_items')
@@ -277,7 +426,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       const guestCart = getGuestCart();
       const item = items.find(i => i.id === itemId);
       if (item) {
-        const index = guestCart.findIndex(g => g.product_id === item.product_id);
+        const index = guestCart.findIndex(g => isSameLine(g, item));
         if (index >= 0) {
           guestCart[index].quantity = quantity;
           saveGuestCart(guestCart);
@@ -307,6 +456,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const totalItems = items.reduce((sum, item) => sum + item.quantity, 0);
   const totalAmount = items.reduce((sum, item) => sum + (item.product?.selling_price || 0) * item.quantity, 0);
+  const hasOutOfStockItems = items.some(item => isOutOfStock(item.product.stock_quantity));
 
   return (
     <CartContext.Provider value={{
@@ -318,6 +468,7 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       clearCart,
       totalItems,
       totalAmount,
+      hasOutOfStockItems,
     }}>
       {children}
     </CartContext.Provider>
@@ -0,0 +1,30 @@
+import { useEffect, useState } from 'react';
+
+const remainingMs = (deadline: string | null) =>
+  deadline ? Math.max(0, new Date(deadline).getTime() - Date.now()) : 0;
+
+// Ticks down to a fixed deadline rather than counting seconds, so the value stays correct across
+// re-renders, background tabs and remounts
+export function useCountdown(deadline: string | null) {
+  const [remaining, setRemaining] = useState(() => remainingMs(deadline));
+
+  useEffect(() => {
+    setRemaining(remainingMs(deadline));
+    if (!deadline) return;
+
+    const timer = setInterval(() => {
+      const next = remainingMs(deadline);
+      setRemaining(next);
+      if (next === 0) clearInterval(timer);
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const totalSeconds = Math.ceil(remaining / 1000);
+  return {
+    minutes: Math.floor(totalSeconds / 60),
+    seconds: totalSeconds % 60,
+    expired: !!deadline && remaining === 0,
+  };
+}
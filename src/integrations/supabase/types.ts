@@ -14,6 +14,47 @@ export type Database = {
   }
   public: {
     Tables: {
+      bank_statement_entries: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string | null
+          id: string
+          imported_by: string | null
+          matched_order_id: string | null
+          transaction_date: string | null
+          utr: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          imported_by?: string | null
+          matched_order_id?: string | null
+          transaction_date?: string | null
+          utr: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          imported_by?: string | null
+          matched_order_id?: string | null
+          transaction_date?: string | null
+          utr?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_statement_entries_matched_order_id_fkey"
+            columns: ["matched_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cart_items: {
         Row: {
           created_at: string
@@ -21,6 +62,7 @@ export type Database = {
           product_id: string
           quantity: number
           user_id: string
+          variant_id: string | null
         }
         Insert: {
           created_at?: string
@@ -28,6 +70,7 @@ export type Database = {
           product_id: string
           quantity?: number
           user_id: string
+          variant_id?: string | null
         }
         Update: {
           created_at?: string
@@ -35,6 +78,7 @@ export type Database = {
           product_id?: string
           quantity?: number
           user_id?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -44,6 +88,113 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checkout_gateway_orders: {
+        Row: {
+          checkout_session_id: string
+          created_at: string
+          gateway_order_id: string
+        }
+        Insert: {
+          checkout_session_id: string
+          created_at?: string
+          gateway_order_id: string
+        }
+        Update: {
+          checkout_session_id?: string
+          created_at?: string
+          gateway_order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checkout_gateway_orders_checkout_session_id_fkey"
+            columns: ["checkout_session_id"]
+            isOneToOne: false
+            referencedRelation: "checkout_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      checkout_sessions: {
+        Row: {
+          address: Json
+          amount: number
+          cod_charge: number
+          created_at: string
+          expires_at: string | null
+          fee_payment_method: string | null
+          gateway_order_id: string | null
+          guest_email: string | null
+          guest_phone: string | null
+          id: string
+          items: Json
+          order_id: string | null
+          payment_failed_at: string | null
+          payment_method: string
+          status: string
+          subtotal: number
+          total_amount: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          address: Json
+          amount: number
+          cod_charge?: number
+          created_at?: string
+          expires_at?: string | null
+          fee_payment_method?: string | null
+          gateway_order_id?: string | null
+          guest_email?: string | null
+          guest_phone?: string | null
+          id?: string
+          items: Json
+          order_id?: string | null
+          payment_failed_at?: string | null
+          payment_method: string
+          status?: string
+          subtotal: number
+          total_amount: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          address?: Json
+          amount?: number
+          cod_charge?: number
+          created_at?: string
+          expires_at?: string | null
+          fee_payment_method?: string | null
+          gateway_order_id?: string | null
+          guest_email?: string | null
+          guest_phone?: string | null
+          id?: string
+          items?: Json
+          order_id?: string | null
+          payment_failed_at?: string | null
+          payment_method?: string
+          status?: string
+          subtotal?: number
+          total_amount?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checkout_sessions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       categories: {
@@ -70,6 +221,241 @@ export type Database = {
         }
         Relationships: []
       }
+      category_attributes: {
+        Row: {
+          category_id: string
+          created_at: string
+          data_type: string
+          display_order: number
+          group_name: string
+          id: string
+          name: string
+          options: string[]
+          unit: string | null
+          updated_at: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          data_type?: string
+          display_order?: number
+          group_name?: string
+          id?: string
+          name: string
+          options?: string[]
+          unit?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          data_type?: string
+          display_order?: number
+          group_name?: string
+          id?: string
+          name?: string
+          options?: string[]
+          unit?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_attributes_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_notifications: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          order_id: string
+          recipient: string
+          refund_id: string | null
+          sent_at: string | null
+          status: string
+          template: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          order_id: string
+          recipient: string
+          refund_id?: string | null
+          sent_at?: string | null
+          status?: string
+          template: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          order_id?: string
+          recipient?: string
+          refund_id?: string | null
+          sent_at?: string | null
+          status?: string
+          template?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_notifications_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_notifications_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      flagged_utr_attempts: {
+        Row: {
+          amount: number
+          checkout_session_id: string | null
+          created_at: string
+          existing_order_id: string | null
+          guest_email: string | null
+          id: string
+          reviewed_at: string | null
+          user_id: string | null
+          utr: string
+        }
+        Insert: {
+          amount: number
+          checkout_session_id?: string | null
+          created_at?: string
+          existing_order_id?: string | null
+          guest_email?: string | null
+          id?: string
+          reviewed_at?: string | null
+          user_id?: string | null
+          utr: string
+        }
+        Update: {
+          amount?: number
+          checkout_session_id?: string | null
+          created_at?: string
+          existing_order_id?: string | null
+          guest_email?: string | null
+          id?: string
+          reviewed_at?: string | null
+          user_id?: string | null
+          utr?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flagged_utr_attempts_checkout_session_id_fkey"
+            columns: ["checkout_session_id"]
+            isOneToOne: false
+            referencedRelation: "checkout_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "flagged_utr_attempts_existing_order_id_fkey"
+            columns: ["existing_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_counters: {
+        Row: {
+          financial_year: number
+          last_value: number
+        }
+        Insert: {
+          financial_year: number
+          last_value: number
+        }
+        Update: {
+          financial_year?: number
+          last_value?: number
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          buyer: Json
+          cgst_amount: number
+          created_at: string
+          id: string
+          igst_amount: number
+          invoice_date: string
+          invoice_number: string
+          is_interstate: boolean
+          lines: Json
+          order_id: string
+          place_of_supply: string | null
+          seller: Json
+          sgst_amount: number
+          taxable_amount: number
+          total_amount: number
+        }
+        Insert: {
+          buyer: Json
+          cgst_amount?: number
+          created_at?: string
+          id?: string
+          igst_amount?: number
+          invoice_date?: string
+          invoice_number: string
+          is_interstate: boolean
+          lines: Json
+          order_id: string
+          place_of_supply?: string | null
+          seller: Json
+          sgst_amount?: number
+          taxable_amount: number
+          total_amount: number
+        }
+        Update: {
+          buyer?: Json
+          cgst_amount?: number
+          created_at?: string
+          id?: string
+          igst_amount?: number
+          invoice_date?: string
+          invoice_number?: string
+          is_interstate?: boolean
+          lines?: Json
+          order_id?: string
+          place_of_supply?: string | null
+          seller?: Json
+          sgst_amount?: number
+          taxable_amount?: number
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       order_items: {
         Row: {
           created_at: string
@@ -79,6 +465,7 @@ export type Database = {
           product_id: string | null
           product_name: string
           quantity: number
+          variant_id: string | null
         }
         Insert: {
           created_at?: string
@@ -88,26 +475,285 @@ export type Database = {
           product_id?: string | null
           product_name: string
           quantity: number
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          price?: number
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          awb_number: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          courier_name: string | null
+          created_at: string
+          guest_email: string | null
+          guest_phone: string | null
+          id: string
+          idempotency_key: string | null
+          payment_id: string | null
+          payment_status: string
+          payment_verified_at: string | null
+          payment_verified_by: string | null
+          shipping_address: string | null
+          shipping_state: string | null
+          status: string
+          total_amount: number
+          tracking_url: string | null
+          updated_at: string
+          user_id: string | null
+          utr: string | null
+        }
+        Insert: {
+          awb_number?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          courier_name?: string | null
+          created_at?: string
+          guest_email?: string | null
+          guest_phone?: string | null
+          id?: string
+          idempotency_key?: string | null
+          payment_id?: string | null
+          payment_status?: string
+          payment_verified_at?: string | null
+          payment_verified_by?: string | null
+          shipping_address?: string | null
+          shipping_state?: string | null
+          status?: string
+          total_amount: number
+          tracking_url?: string | null
+          updated_at?: string
+          user_id?: string | null
+          utr?: string | null
+        }
+        Update: {
+          awb_number?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          courier_name?: string | null
+          created_at?: string
+          guest_email?: string | null
+          guest_phone?: string | null
+          id?: string
+          idempotency_key?: string | null
+          payment_id?: string | null
+          payment_status?: string
+          payment_verified_at?: string | null
+          payment_verified_by?: string | null
+          shipping_address?: string | null
+          shipping_state?: string | null
+          status?: string
+          total_amount?: number
+          tracking_url?: string | null
+          updated_at?: string
+          user_id?: string | null
+          utr?: string | null
+        }
+        Relationships: []
+      }
+      outbound_messages: {
+        Row: {
+          attempts: number
+          channel: string
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          order_id: string
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          sent_at: string | null
+          status: string
+          template: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          order_id: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          sent_at?: string | null
+          status?: string
+          template: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          order_id?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          sent_at?: string | null
+          status?: string
+          template?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outbound_messages_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_events: {
+        Row: {
+          created_at: string
+          event_key: string
+          event_type: string
+          gateway_order_id: string
+          gateway_payment_id: string | null
+          id: string
+          payload: Json
+          payment_status: string | null
+          processed_at: string | null
+          provider: string
+        }
+        Insert: {
+          created_at?: string
+          event_key: string
+          event_type: string
+          gateway_order_id: string
+          gateway_payment_id?: string | null
+          id?: string
+          payload: Json
+          payment_status?: string | null
+          processed_at?: string | null
+          provider: string
+        }
+        Update: {
+          created_at?: string
+          event_key?: string
+          event_type?: string
+          gateway_order_id?: string
+          gateway_payment_id?: string | null
+          id?: string
+          payload?: Json
+          payment_status?: string | null
+          processed_at?: string | null
+          provider?: string
+        }
+        Relationships: []
+      }
+      product_attribute_values: {
+        Row: {
+          attribute_id: string
+          created_at: string
+          id: string
+          product_id: string
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          attribute_id: string
+          created_at?: string
+          id?: string
+          product_id: string
+          updated_at?: string
+          value: string
         }
         Update: {
+          attribute_id?: string
           created_at?: string
           id?: string
-          order_id?: string
-          price?: number
-          product_id?: string | null
-          product_name?: string
-          quantity?: number
+          product_id?: string
+          updated_at?: string
+          value?: string
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "product_attribute_values_attribute_id_fkey"
+            columns: ["attribute_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "category_attributes"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_product_id_fkey"
+            foreignKeyName: "product_attribute_values_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
@@ -115,73 +761,84 @@ export type Database = {
           },
         ]
       }
-      orders: {
+      product_images: {
         Row: {
           created_at: string
-          guest_email: string | null
-          guest_phone: string | null
+          display_order: number
           id: string
-          payment_id: string | null
-          payment_status: string
-          shipping_address: string | null
-          status: string
-          total_amount: number
-          updated_at: string
-          user_id: string | null
+          image_url: string
+          product_id: string
         }
         Insert: {
           created_at?: string
-          guest_email?: string | null
-          guest_phone?: string | null
+          display_order?: number
           id?: string
-          payment_id?: string | null
-          payment_status?: string
-          shipping_address?: string | null
-          status?: string
-          total_amount: number
-          updated_at?: string
-          user_id?: string | null
+          image_url: string
+          product_id: string
         }
         Update: {
           created_at?: string
-          guest_email?: string | null
-          guest_phone?: string | null
+          display_order?: number
           id?: string
-          payment_id?: string | null
-          payment_status?: string
-          shipping_address?: string | null
-          status?: string
-          total_amount?: number
-          updated_at?: string
-          user_id?: string | null
+          image_url?: string
+          product_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      product_images: {
+      product_variants: {
         Row: {
           created_at: string
           display_order: number
           id: string
-          image_url: string
+          image_urls: string[]
+          is_active: boolean
+          options: Json
+          original_price: number
           product_id: string
+          selling_price: number
+          sku: string | null
+          stock_quantity: number
+          updated_at: string
         }
         Insert: {
           created_at?: string
           display_order?: number
           id?: string
-          image_url: string
+          image_urls?: string[]
+          is_active?: boolean
+          options?: Json
+          original_price: number
           product_id: string
+          selling_price: number
+          sku?: string | null
+          stock_quantity?: number
+          updated_at?: string
         }
         Update: {
           created_at?: string
           display_order?: number
           id?: string
-          image_url?: string
+          image_urls?: string[]
+          is_active?: boolean
+          options?: Json
+          original_price?: number
           product_id?: string
+          selling_price?: number
+          sku?: string | null
+          stock_quantity?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "product_images_product_id_fkey"
+            foreignKeyName: "product_variants_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
@@ -192,42 +849,63 @@ export type Database = {
       products: {
         Row: {
           category_id: string | null
+          category_name: string | null
           created_at: string
           description: string | null
           display_order: number
+          gst_rate: number
+          hsn_code: string | null
           id: string
           image_url: string | null
           is_active: boolean
+          low_stock_threshold: number
           name: string
           original_price: number
+          search_vector: unknown
           selling_price: number
+          stock_quantity: number
           updated_at: string
+          variant_axes: string[]
         }
         Insert: {
           category_id?: string | null
+          category_name?: string | null
           created_at?: string
           description?: string | null
           display_order?: number
+          gst_rate?: number
+          hsn_code?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean
+          low_stock_threshold?: number
           name: string
           original_price: number
+          search_vector?: never
           selling_price: number
+          stock_quantity?: number
           updated_at?: string
+          variant_axes?: string[]
         }
         Update: {
           category_id?: string | null
+          category_name?: string | null
           created_at?: string
           description?: string | null
           display_order?: number
+          gst_rate?: number
+          hsn_code?: string | null
           id?: string
           image_url?: string | null
           is_active?: boolean
+          low_stock_threshold?: number
           name?: string
           original_price?: number
+          search_vector?: never
           selling_price?: number
+          stock_quantity?: number
           updated_at?: string
+          variant_axes?: string[]
         }
         Relationships: [
           {
@@ -247,8 +925,10 @@ export type Database = {
           full_name: string | null
           id: string
           phone: string | null
+          sms_opt_out: boolean
           updated_at: string
           user_id: string
+          whatsapp_opt_out: boolean
         }
         Insert: {
           address?: string | null
@@ -257,8 +937,10 @@ export type Database = {
           full_name?: string | null
           id?: string
           phone?: string | null
+          sms_opt_out?: boolean
           updated_at?: string
           user_id: string
+          whatsapp_opt_out?: boolean
         }
         Update: {
           address?: string | null
@@ -267,11 +949,135 @@ export type Database = {
           full_name?: string | null
           id?: string
           phone?: string | null
+          sms_opt_out?: boolean
           updated_at?: string
           user_id?: string
+          whatsapp_opt_out?: boolean
         }
         Relationships: []
       }
+      refunds: {
+        Row: {
+          amount: number
+          cf_refund_id: string | null
+          created_at: string
+          created_by: string | null
+          gateway_refund_id: string | null
+          id: string
+          method: string
+          order_id: string
+          processed_at: string | null
+          reason: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          cf_refund_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          gateway_refund_id?: string | null
+          id?: string
+          method: string
+          order_id: string
+          processed_at?: string | null
+          reason?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          cf_refund_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          gateway_refund_id?: string | null
+          id?: string
+          method?: string
+          order_id?: string
+          processed_at?: string | null
+          reason?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_requests: {
+        Row: {
+          admin_note: string | null
+          created_at: string
+          details: string | null
+          id: string
+          order_id: string
+          order_item_id: string
+          photo_paths: string[]
+          pickup_date: string | null
+          quantity: number
+          reason: string
+          request_type: string
+          resolved_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          admin_note?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          order_id: string
+          order_item_id: string
+          photo_paths?: string[]
+          pickup_date?: string | null
+          quantity: number
+          reason: string
+          request_type: string
+          resolved_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          admin_note?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          order_id?: string
+          order_item_id?: string
+          photo_paths?: string[]
+          pickup_date?: string | null
+          quantity?: number
+          reason?: string
+          request_type?: string
+          resolved_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       settings: {
         Row: {
           created_at: string
@@ -296,6 +1102,58 @@ export type Database = {
         }
         Relationships: []
       }
+      stock_reservations: {
+        Row: {
+          checkout_session_id: string
+          created_at: string
+          expires_at: string
+          id: string
+          product_id: string
+          quantity: number
+          variant_id: string | null
+        }
+        Insert: {
+          checkout_session_id: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          product_id: string
+          quantity: number
+          variant_id?: string | null
+        }
+        Update: {
+          checkout_session_id?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_reservations_checkout_session_id_fkey"
+            columns: ["checkout_session_id"]
+            isOneToOne: false
+            referencedRelation: "checkout_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -322,6 +1180,79 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      attach_guest_orders: {
+        Args: {
+          _email: string
+          _user_id: string
+        }
+        Returns: number
+      }
+      browse_products: {
+        Args: {
+          _category_slugs?: string[]
+          _in_stock?: boolean
+          _limit?: number
+          _max_price?: number
+          _min_discount?: number
+          _min_price?: number
+          _offset?: number
+          _query?: string
+          _sort?: string
+        }
+        Returns: Json
+      }
+      cancel_order: {
+        Args: {
+          _order_id: string
+          _reason: string
+        }
+        Returns: undefined
+      }
+      claim_guest_orders: { Args: never; Returns: number }
+      claim_email_notifications: {
+        Args: {
+          _limit?: number
+        }
+        Returns: Database["public"]["Tables"]["email_notifications"]["Row"][]
+      }
+      claim_outbound_messages: {
+        Args: {
+          _limit?: number
+        }
+        Returns: Database["public"]["Tables"]["outbound_messages"]["Row"][]
+      }
+      create_return_request: {
+        Args: {
+          _details?: string
+          _order_item_id: string
+          _photo_paths?: string[]
+          _quantity: number
+          _reason: string
+          _request_type: string
+        }
+        Returns: string
+      }
+      enqueue_order_email: {
+        Args: {
+          _order_id: string
+          _refund_id?: string
+          _template: string
+        }
+        Returns: undefined
+      }
+      enqueue_order_message: {
+        Args: {
+          _order_id: string
+          _template: string
+        }
+        Returns: undefined
+      }
+      generate_invoice: {
+        Args: {
+          _order_id: string
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -329,6 +1260,105 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoke_edge_function: {
+        Args: {
+          _name: string
+        }
+        Returns: number
+      }
+      lookup_guest_order: {
+        Args: {
+          _contact: string
+          _order_id: string
+        }
+        Returns: Json
+      }
+      place_order: {
+        Args: {
+          _items: Json
+          _order: Json
+        }
+        Returns: string
+      }
+      record_refund: {
+        Args: {
+          _amount: number
+          _created_by: string
+          _gateway_refund_id: string
+          _method: string
+          _order_id: string
+          _reason: string
+          _status: string
+        }
+        Returns: {
+          amount: number
+          cf_refund_id: string | null
+          created_at: string
+          created_by: string | null
+          gateway_refund_id: string | null
+          id: string
+          method: string
+          order_id: string
+          processed_at: string | null
+          reason: string | null
+          status: string
+          updated_at: string
+        }
+      }
+      reserve_checkout_stock: {
+        Args: {
+          _checkout_session_id: string
+          _expires_at: string
+        }
+        Returns: undefined
+      }
+      save_product_variants: {
+        Args: {
+          _axes: string[]
+          _product_id: string
+          _variants: Json
+        }
+        Returns: undefined
+      }
+      search_products: {
+        Args: {
+          _limit?: number
+          _offset?: number
+          _query: string
+        }
+        Returns: {
+          category_id: string | null
+          id: string
+          image_url: string | null
+          name: string
+          name_highlight: string
+          original_price: number
+          rank: number
+          selling_price: number
+          snippet: string | null
+          stock_quantity: number
+        }[]
+      }
+      update_order_status: {
+        Args: {
+          _awb_number?: string
+          _courier_name?: string
+          _note?: string
+          _order_id: string
+          _status: string
+          _tracking_url?: string
+        }
+        Returns: undefined
+      }
+      update_return_request: {
+        Args: {
+          _note?: string
+          _pickup_date?: string
+          _request_id: string
+          _status: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
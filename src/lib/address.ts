@@ -0,0 +1,36 @@
+// Shipping states offered at checkout; the seller's state is picked from the same list so invoices can
+// tell intra-state from inter-state supplies
+export const INDIAN_STATES = [
+  'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chhattisgarh',
+  'Goa', 'Gujarat', 'Haryana', 'Himachal Pradesh', 'Jharkhand', 'Karnataka',
+  'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Manipur', 'Meghalaya', 'Mizoram',
+  'Nagaland', 'Odisha', 'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu',
+  'Telangana', 'Tripura', 'Uttar Pradesh', 'Uttarakhand', 'West Bengal',
+  'Delhi', 'Jammu and Kashmir', 'Ladakh'
+];
+
+export interface ShippingAddress {
+  fullName: string;
+  phone: string;
+  line1: string;
+  city: string;
+  state: string;
+  pincode: string;
+}
+
+// orders.shipping_address is stored as "name\nphone\nhouse, road\ncity, state - pincode" by the place-order function
+export const parseShippingAddress = (address: string | null | undefined): ShippingAddress | null => {
+  if (!address) return null;
+
+  const [fullName = '', phone = '', line1 = '', locality = ''] = address.split('\n').map((line) => line.trim());
+  const match = locality.match(/^(.*),\s*(.*?)\s*-\s*(\d{6})$/);
+
+  return {
+    fullName,
+    phone,
+    line1: line1.replace(/,\s*$/, ''),
+    city: match ? match[1].trim() : locality,
+    state: match ? match[2] : '',
+    pincode: match ? match[3] : '',
+  };
+};
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type AttributeDataType = 'text' | 'number' | 'boolean' | 'select';
+
+export interface CategoryAttribute {
+  id: string;
+  category_id: string;
+  name: string;
+  data_type: AttributeDataType;
+  unit: string | null;
+  options: string[];
+  group_name: string;
+  display_order: number;
+}
+
+export interface ProductSpecification {
+  attribute: CategoryAttribute;
+  value: string;
+}
+
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeDataType, string> = {
+  text: 'Text',
+  number: 'Number',
+  boolean: 'Yes / No',
+  select: 'One of a list',
+};
+
+// Values are stored as text: booleans as "true"/"false", numbers without their unit
+export const formatAttributeValue = (attribute: CategoryAttribute, value: string) => {
+  if (attribute.data_type === 'boolean') return value === 'true' ? 'Yes' : 'No';
+  if (attribute.data_type === 'number' && attribute.unit) return `${value} ${attribute.unit}`;
+  return value;
+};
+
+// Specifications grouped under their headings, in the order the category lists its attributes
+export const groupSpecifications = (specifications: ProductSpecification[]) => {
+  const sorted = [...specifications].sort((a, b) => a.attribute.display_order - b.attribute.display_order);
+  const groups = new Map<string, ProductSpecification[]>();
+  for (const specification of sorted) {
+    const group = groups.get(specification.attribute.group_name) ?? [];
+    group.push(specification);
+    groups.set(specification.attribute.group_name, group);
+  }
+  return [...groups.entries()].map(([name, rows]) => ({ name, rows }));
+};
+
+export const fetchCategoryAttributes = async (categoryId: string) => {
+  const { data, error } = await supabase
+    .from('category_attributes')
+    .select('*')
+    .eq('category_id', categoryId)
+    .order('display_order', { ascending: true });
+  if (error) throw error;
+  return data as CategoryAttribute[];
+};
+
+export const fetchProductAttributeValues = async (productId: string) => {
+  const { data, error } = await supabase
+    .from('product_attribute_values')
+    .select('attribute_id, value')
+    .eq('product_id', productId);
+  if (error) throw error;
+  return Object.fromEntries(data.map((row) => [row.attribute_id, row.value])) as Record<string, string>;
+};
+
+// Writes the admin's values keyed by attribute id; blank ones are removed from the product
+export const saveProductAttributeValues = async (productId: string, values: Record<string, string>) => {
+  const filled = Object.entries(values).filter(([, value]) => value.trim() !== '');
+  const blankIds = Object.keys(values).filter((attributeId) => !filled.some(([id]) => id === attributeId));
+
+  if (blankIds.length > 0) {
+    const { error } = await supabase
+      .from('product_attribute_values')
+      .delete()
+      .eq('product_id', productId)
+      .in('attribute_id', blankIds);
+    if (error) throw error;
+  }
+
+  if (filled.length > 0) {
+    const { error } = await supabase
+      .from('product_attribute_values')
+      .upsert(
+        filled.map(([attributeId, value]) => ({ product_id: productId, attribute_id: attributeId, value })),
+        { onConflict: 'product_id,attribute_id' }
+      );
+    if (error) throw error;
+  }
+};
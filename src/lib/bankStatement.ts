@@ -0,0 +1,120 @@
+export interface StatementEntry {
+  utr: string;
+  amount: number;
+  transactionDate: string | null;
+  description: string;
+}
+
+export interface ReconcilableOrder {
+  id: string;
+  utr: string | null;
+  expectedAmount: number;
+}
+
+// UPI transaction references (UTR / RRN) are always 12 digits
+const UTR_PATTERN = /^\d{12}$/;
+const UPI_REFERENCE = /\b(\d{12})\b/;
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+};
+
+// Signed: a "Dr" suffix, a leading minus or accounting brackets make the amount negative
+const parseAmount = (value: string | undefined) => {
+  const cleaned = (value || '').replace(/[₹,\s]/g, '');
+  const isDebit = /dr$/i.test(cleaned) || /^-|^\(.*\)$/.test(cleaned);
+  const amount = parseFloat(cleaned.replace(/(cr|dr)$/i, '').replace(/[()-]/g, ''));
+  if (!Number.isFinite(amount)) return 0;
+  return isDebit ? -amount : amount;
+};
+
+// Banks export statements with a preamble and different column names, so the header row and
+// columns are detected by name. The UTR comes from its own column or from the UPI narration.
+export const parseBankStatement = (text: string): StatementEntry[] => {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => /credit|deposit|amount/i.test(cell)) && row.some((cell) => /date/i.test(cell))
+  );
+
+  if (headerIndex < 0) {
+    throw new Error('Could not find a header row with date and amount columns');
+  }
+
+  const header = rows[headerIndex].map((cell) => cell.trim().toLowerCase());
+  const findColumn = (pattern: RegExp) => header.findIndex((cell) => pattern.test(cell));
+
+  const utrColumn = findColumn(/utr|rrn|ref(erence)?\.?\s*(no|number)?$|transaction id|txn id|cheque/);
+  const creditColumn = findColumn(/credit|deposit/);
+  const amountColumn = creditColumn >= 0 ? creditColumn : findColumn(/amount/);
+  // Statements with a single amount column mark money going out in a debit/withdrawal column or a Cr/Dr one
+  const debitColumn = findColumn(/debit|withdrawal/);
+  const typeColumn = findColumn(/^(cr\/dr|dr\/cr|type|transaction type)$/);
+  const dateColumn = findColumn(/date/);
+  const descriptionColumn = findColumn(/narration|description|particulars|remarks|details/);
+
+  return rows.slice(headerIndex + 1).flatMap((row) => {
+    const description = descriptionColumn >= 0 ? (row[descriptionColumn] || '').trim() : '';
+    const reference = utrColumn >= 0 ? (row[utrColumn] || '').replace(/[^0-9A-Za-z]/g, '') : '';
+    // Reference columns often hold the bank's own transaction id, so anything but a UTR falls back to the narration
+    const utr = UTR_PATTERN.test(reference) ? reference : description.match(UPI_REFERENCE)?.[1] || '';
+    const amount = parseAmount(row[amountColumn]);
+    const isDebit =
+      (typeColumn >= 0 && /^(dr|debit|withdrawal)/i.test((row[typeColumn] || '').trim())) ||
+      (creditColumn < 0 && debitColumn >= 0 && debitColumn !== amountColumn && parseAmount(row[debitColumn]) !== 0);
+
+    // Only money received can pay for an order
+    if (!utr || amount <= 0 || isDebit) return [];
+
+    return [{
+      utr,
+      amount,
+      transactionDate: dateColumn >= 0 ? (row[dateColumn] || '').trim() || null : null,
+      description,
+    }];
+  });
+};
+
+// Pair each order with the statement entry carrying its UTR, provided enough money arrived
+export const matchStatementEntries = <T extends ReconcilableOrder>(orders: T[], entries: StatementEntry[]) => {
+  const entriesByUtr = new Map(entries.map((entry) => [entry.utr, entry]));
+
+  return orders.flatMap((order) => {
+    const entry = order.utr ? entriesByUtr.get(order.utr) : undefined;
+    return entry && entry.amount >= order.expectedAmount ? [{ order, entry }] : [];
+  });
+};
@@ -0,0 +1,11 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// Edge functions answer 4xx with a JSON { error } body; surface that message instead of the generic
+// "non-2xx status code" one from supabase-js
+export const getFunctionErrorMessage = async (error: Error) => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (typeof body?.error === 'string') return body.error as string;
+  }
+  return error.message;
+};
@@ -0,0 +1,160 @@
+import { supabase } from '@/integrations/supabase/client';
+import { parseShippingAddress } from '@/lib/address';
+
+export interface InvoiceLine {
+  description: string;
+  hsn: string | null;
+  quantity: number;
+  unit_price: number;
+  rate: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface Invoice {
+  invoice_number: string;
+  invoice_date: string;
+  seller: { name: string; gstin: string; address: string; state: string };
+  buyer: { address: string; state: string | null };
+  place_of_supply: string | null;
+  is_interstate: boolean;
+  lines: InvoiceLine[];
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  total_amount: number;
+}
+
+// Mirrors products_gst_rate_check
+export const GST_RATES = ['0', '0.25', '3', '5', '12', '18', '28'];
+
+// 2-digit state code, PAN, entity number, 'Z' and a check character
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+// public.generate_invoice refuses orders that are unpaid or cancelled
+export const isOrderInvoiceable = (status: string) => !['pending_payment', 'cancelled'].includes(status);
+
+// Issues the invoice on first use (the number is assigned on the server) and fetches the stored copy
+export const fetchInvoice = async (orderId: string): Promise<Invoice> => {
+  const { data: invoiceId, error } = await supabase.rpc('generate_invoice', { _order_id: orderId });
+  if (error) throw error;
+
+  const { data, error: fetchError } = await supabase.from('invoices').select('*').eq('id', invoiceId).single();
+  if (fetchError) throw fetchError;
+
+  return data as unknown as Invoice;
+};
+
+// The standard PDF fonts have no rupee sign
+const formatAmount = (value: number) =>
+  `Rs. ${Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const downloadInvoice = async (orderId: string) => {
+  const invoice = await fetchInvoice(orderId);
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 40;
+  let y = margin;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('TAX INVOICE', pageWidth / 2, y, { align: 'center' });
+  y += 28;
+
+  // Seller and invoice details
+  doc.setFontSize(10);
+  doc.text(invoice.seller.name || 'Seller', margin, y);
+  doc.text(`Invoice No: ${invoice.invoice_number}`, pageWidth - margin, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  y += 14;
+  const sellerLines = doc.splitTextToSize(invoice.seller.address, 280) as string[];
+  doc.text(sellerLines, margin, y);
+  doc.text(`Invoice Date: ${new Date(invoice.invoice_date).toLocaleDateString('en-IN')}`, pageWidth - margin, y, { align: 'right' });
+  y += sellerLines.length * 12;
+  doc.text(`State: ${invoice.seller.state}`, margin, y);
+  doc.text(`Order ID: ${orderId}`, pageWidth - margin, y, { align: 'right' });
+  y += 12;
+  doc.text(`GSTIN: ${invoice.seller.gstin}`, margin, y);
+  y += 24;
+
+  // Buyer
+  const buyer = parseShippingAddress(invoice.buyer.address);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill To / Ship To', margin, y);
+  doc.setFont('helvetica', 'normal');
+  y += 14;
+  const buyerLines = buyer
+    ? [buyer.fullName, buyer.line1, `${buyer.city}${buyer.state ? `, ${buyer.state}` : ''}${buyer.pincode ? ` - ${buyer.pincode}` : ''}`, `Phone: ${buyer.phone}`]
+    : [invoice.buyer.address];
+  doc.text(buyerLines, margin, y);
+  y += buyerLines.length * 12 + 4;
+  doc.text(`Place of Supply: ${invoice.place_of_supply || '-'}`, margin, y);
+  y += 24;
+
+  // Line items
+  const taxColumns = invoice.is_interstate ? ['IGST'] : ['CGST', 'SGST'];
+  const columns = [
+    { title: '#', x: margin },
+    { title: 'Description', x: margin + 20 },
+    { title: 'HSN/SAC', x: margin + 200 },
+    { title: 'Qty', x: margin + 250 },
+    { title: 'Taxable', x: margin + 280 },
+    { title: 'Rate', x: margin + 345 },
+    ...taxColumns.map((title, index) => ({ title, x: margin + 380 + index * 55 })),
+    { title: 'Total', x: pageWidth - margin },
+  ];
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9);
+  columns.forEach((column) =>
+    doc.text(column.title, column.x, y, column.title === 'Total' ? { align: 'right' } : undefined)
+  );
+  y += 6;
+  doc.line(margin, y, pageWidth - margin, y);
+  y += 14;
+  doc.setFont('helvetica', 'normal');
+
+  invoice.lines.forEach((line, index) => {
+    const description = doc.splitTextToSize(line.description, 170) as string[];
+    const taxValues = invoice.is_interstate ? [line.igst] : [line.cgst, line.sgst];
+    doc.text(String(index + 1), columns[0].x, y);
+    doc.text(description, columns[1].x, y);
+    doc.text(line.hsn || '-', columns[2].x, y);
+    doc.text(String(line.quantity), columns[3].x, y);
+    doc.text(Number(line.taxable).toFixed(2), columns[4].x, y);
+    doc.text(invoice.is_interstate ? `${line.rate}%` : `${line.rate / 2}%+${line.rate / 2}%`, columns[5].x, y);
+    taxValues.forEach((value, taxIndex) => doc.text(Number(value).toFixed(2), columns[6 + taxIndex].x, y));
+    doc.text(Number(line.total).toFixed(2), pageWidth - margin, y, { align: 'right' });
+    y += Math.max(description.length, 1) * 11 + 6;
+  });
+
+  doc.line(margin, y - 6, pageWidth - margin, y - 6);
+  y += 10;
+
+  // Totals
+  const totals: [string, number][] = [
+    ['Taxable Value', invoice.taxable_amount],
+    ...(invoice.is_interstate
+      ? ([['IGST', invoice.igst_amount]] as [string, number][])
+      : ([['CGST', invoice.cgst_amount], ['SGST', invoice.sgst_amount]] as [string, number][])),
+    ['Invoice Total', invoice.total_amount],
+  ];
+  doc.setFontSize(10);
+  totals.forEach(([label, value], index) => {
+    if (index === totals.length - 1) doc.setFont('helvetica', 'bold');
+    doc.text(label, pageWidth - margin - 160, y);
+    doc.text(formatAmount(value), pageWidth - margin, y, { align: 'right' });
+    y += 16;
+  });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text('Prices are inclusive of GST. This is a computer generated invoice and does not require a signature.', margin, y + 20);
+
+  doc.save(`${invoice.invoice_number}.pdf`);
+};
@@ -0,0 +1,130 @@
+export type OrderStatus =
+  | 'pending_payment'
+  | 'confirmed'
+  | 'packed'
+  | 'shipped'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'cancelled'
+  | 'returned';
+
+// The normal path an order takes; cancelled and returned branch off it
+export const ORDER_STATUS_FLOW: OrderStatus[] = [
+  'pending_payment',
+  'confirmed',
+  'packed',
+  'shipped',
+  'out_for_delivery',
+  'delivered',
+];
+
+// Mirrors public.is_valid_order_status_transition, which is what actually enforces it
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending_payment: ['confirmed', 'cancelled'],
+  confirmed: ['packed', 'cancelled'],
+  packed: ['shipped', 'cancelled'],
+  shipped: ['out_for_delivery', 'delivered', 'returned'],
+  out_for_delivery: ['delivered', 'returned'],
+  delivered: ['returned'],
+  cancelled: [],
+  returned: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending_payment: 'Pending Payment',
+  confirmed: 'Confirmed',
+  packed: 'Packed',
+  shipped: 'Shipped',
+  out_for_delivery: 'Out for Delivery',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  returned: 'Returned',
+};
+
+export const getOrderStatusLabel = (status: string) =>
+  ORDER_STATUS_LABELS[status as OrderStatus] ?? status.charAt(0).toUpperCase() + status.slice(1);
+
+export const getOrderStatusColor = (status: string) => {
+  switch (status) {
+    case 'pending_payment':
+      return 'bg-orange-500';
+    case 'confirmed':
+      return 'bg-blue-500';
+    case 'packed':
+      return 'bg-indigo-500';
+    case 'shipped':
+    case 'out_for_delivery':
+      return 'bg-yellow-500';
+    case 'delivered':
+      return 'bg-green-500';
+    case 'cancelled':
+    case 'returned':
+      return 'bg-red-500';
+    default:
+      return 'bg-gray-500';
+  }
+};
+
+export const getNextOrderStatuses = (status: string): OrderStatus[] =>
+  ORDER_STATUS_TRANSITIONS[status as OrderStatus] ?? [];
+
+// Customers can cancel until the parcel ships; enforced by public.cancel_order
+export const CANCELLABLE_ORDER_STATUSES: OrderStatus[] = ['pending_payment', 'confirmed', 'packed'];
+
+export const isOrderCancellable = (status: string) => CANCELLABLE_ORDER_STATUSES.includes(status as OrderStatus);
+
+export const CANCELLATION_REASONS = [
+  'Ordered by mistake',
+  'Found a better price elsewhere',
+  'Delivery is taking too long',
+  'Want to change the address or payment method',
+  'No longer needed',
+];
+
+export interface StatusHistoryEntry {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  note?: string | null;
+  created_at: string;
+}
+
+export interface TimelineStep {
+  status: string;
+  reachedAt: string | null;
+  done: boolean;
+}
+
+// Walks the normal flow up to the current status; cancelled and returned orders stop where they branched off
+export const buildOrderTimeline = (status: string, history: StatusHistoryEntry[]): TimelineStep[] => {
+  const reachedAt = (step: string) =>
+    history
+      .filter((entry) => entry.to_status === step)
+      .map((entry) => entry.created_at)
+      .pop() ?? null;
+
+  const flowIndex = ORDER_STATUS_FLOW.indexOf(status as OrderStatus);
+  if (flowIndex >= 0) {
+    return ORDER_STATUS_FLOW.map((step, index) => ({
+      status: step,
+      reachedAt: index <= flowIndex ? reachedAt(step) : null,
+      done: index <= flowIndex,
+    }));
+  }
+
+  const branch = history.filter((entry) => entry.to_status === status).pop();
+  const branchedFrom = ORDER_STATUS_FLOW.indexOf(branch?.from_status as OrderStatus);
+  return [
+    ...ORDER_STATUS_FLOW.slice(0, branchedFrom + 1).map((step) => ({ status: step, reachedAt: reachedAt(step), done: true })),
+    { status, reachedAt: branch?.created_at ?? null, done: true },
+  ];
+};
+
+export const formatOrderDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
@@ -0,0 +1,61 @@
+export type PaymentMethod = 'cashfree' | 'scan' | 'cod';
+export type FeePaymentMethod = 'cashfree' | 'scan';
+
+export interface ParsedPaymentId {
+  method: PaymentMethod;
+  feePaymentMethod?: FeePaymentMethod;
+  reference: string;
+}
+
+// orders.payment_id is written as CASHFREE:<order>, SCAN:UPI:<utr> or COD:FEE_PAID:<SCAN|CASHFREE>:<ref>
+export const parsePaymentId = (paymentId: string | null | undefined): ParsedPaymentId | null => {
+  if (!paymentId) return null;
+
+  const cod = paymentId.match(/^COD:FEE_PAID:(SCAN|CASHFREE):(.+)$/);
+  if (cod) {
+    return { method: 'cod', feePaymentMethod: cod[1] === 'SCAN' ? 'scan' : 'cashfree', reference: cod[2] };
+  }
+  if (paymentId.startsWith('SCAN:UPI:')) {
+    return { method: 'scan', reference: paymentId.slice('SCAN:UPI:'.length) };
+  }
+  if (paymentId.startsWith('CASHFREE:')) {
+    return { method: 'cashfree', reference: paymentId.slice('CASHFREE:'.length) };
+  }
+  return null;
+};
+
+// The UTR the shopper entered for a Scan & Pay payment (including COD confirmation fees), if any
+export const getScanUtr = (paymentId: string | null | undefined) => {
+  const parsed = parsePaymentId(paymentId);
+  if (!parsed) return null;
+  return parsed.method === 'scan' || parsed.feePaymentMethod === 'scan' ? parsed.reference : null;
+};
+
+// Payment states a refund can still be issued from; mirrors the check in the cashfree-payment function
+export const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'cod_fee_paid', 'partially_refunded'];
+
+export const getRefundStatusVariant = (status: string) => {
+  switch (status) {
+    case 'processed':
+      return 'default';
+    case 'failed':
+    case 'cancelled':
+      return 'destructive';
+    default:
+      return 'secondary';
+  }
+};
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cashfree: 'Paid online (Cashfree)',
+  scan: 'UPI (Scan & Pay)',
+  cod: 'Cash on Delivery',
+};
+
+export const getPaymentMethodLabel = (parsed: ParsedPaymentId | null) => {
+  if (!parsed) return 'Unknown';
+  if (parsed.method === 'cod') {
+    return `${PAYMENT_METHOD_LABELS.cod} (fee paid via ${parsed.feePaymentMethod === 'scan' ? 'UPI' : 'Cashfree'})`;
+  }
+  return PAYMENT_METHOD_LABELS[parsed.method];
+};
@@ -0,0 +1,105 @@
+export type ProductSort = 'relevance' | 'price_asc' | 'price_desc' | 'newest' | 'discount';
+
+// Everything here lives in the URL, so filtered listings can be shared and survive a reload
+export interface ProductFilters {
+  query: string;
+  categories: string[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  minDiscount: number | null;
+  inStock: boolean;
+  sort: ProductSort;
+  page: number;
+}
+
+export interface ListedProduct {
+  id: string;
+  name: string;
+  selling_price: number;
+  original_price: number;
+  image_url: string | null;
+  stock_quantity: number;
+  discount_percent: number;
+  name_highlight: string | null;
+  snippet: string | null;
+}
+
+export interface ProductFacets {
+  categories: { slug: string; name: string; count: number }[];
+  price: { min: number | null; max: number | null };
+  discounts: { min: number; count: number }[];
+  in_stock: number;
+}
+
+// Shape of the browse_products RPC result
+export interface ProductListing {
+  total: number;
+  products: ListedProduct[];
+  facets: ProductFacets;
+}
+
+export const PRODUCTS_PER_PAGE = 48;
+// Keeps the page's offset within a Postgres integer
+const MAX_PAGE = Math.floor(2 ** 31 / PRODUCTS_PER_PAGE);
+
+export const SORT_OPTIONS: { value: ProductSort; label: string }[] = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'price_asc', label: 'Price: Low to High' },
+  { value: 'price_desc', label: 'Price: High to Low' },
+  { value: 'newest', label: 'Newest First' },
+  { value: 'discount', label: 'Discount' },
+];
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Whole numbers only, kept within bounds, since they go straight into integer RPC arguments
+const parseInteger = (value: string | null, min: number, max: number) => {
+  const parsed = parseNumber(value);
+  return parsed === null ? null : Math.min(max, Math.max(min, Math.floor(parsed)));
+};
+
+export const parseProductFilters = (params: URLSearchParams): ProductFilters => {
+  const sort = params.get('sort');
+  return {
+    query: params.get('q') ?? '',
+    categories: (params.get('category') ?? '').split(',').filter(Boolean),
+    minPrice: parseNumber(params.get('min_price')),
+    maxPrice: parseNumber(params.get('max_price')),
+    minDiscount: parseInteger(params.get('discount'), 0, 100),
+    inStock: params.get('in_stock') === '1',
+    sort: SORT_OPTIONS.some((option) => option.value === sort) ? (sort as ProductSort) : 'relevance',
+    page: parseInteger(params.get('page'), 1, MAX_PAGE) ?? 1,
+  };
+};
+
+// Applies changes to the current URL params. Any filter change goes back to the first page.
+export const updateProductFilters = (params: URLSearchParams, changes: Partial<ProductFilters>) => {
+  const next = { ...parseProductFilters(params), page: 1, ...changes };
+  const entries: [string, string | null][] = [
+    ['q', next.query || null],
+    ['category', next.categories.length > 0 ? next.categories.join(',') : null],
+    ['min_price', next.minPrice?.toString() ?? null],
+    ['max_price', next.maxPrice?.toString() ?? null],
+    ['discount', next.minDiscount?.toString() ?? null],
+    ['in_stock', next.inStock ? '1' : null],
+    ['sort', next.sort !== 'relevance' ? next.sort : null],
+    ['page', next.page > 1 ? next.page.toString() : null],
+  ];
+
+  const updated = new URLSearchParams(params);
+  for (const [key, value] of entries) {
+    if (value === null) updated.delete(key);
+    else updated.set(key, value);
+  }
+  return updated;
+};
+
+export const countActiveFilters = (filters: ProductFilters) =>
+  filters.categories.length +
+  (filters.minPrice !== null || filters.maxPrice !== null ? 1 : 0) +
+  (filters.minDiscount !== null ? 1 : 0) +
+  (filters.inStock ? 1 : 0);
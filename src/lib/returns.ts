@@ -0,0 +1,70 @@
+export type ReturnRequestType = 'return' | 'replacement';
+
+export type ReturnRequestStatus = 'requested' | 'approved' | 'rejected' | 'pickup_scheduled' | 'closed';
+
+export interface ReturnRequest {
+  id: string;
+  order_item_id: string;
+  request_type: ReturnRequestType;
+  quantity: number;
+  reason: string;
+  details: string | null;
+  photo_paths: string[];
+  status: ReturnRequestStatus;
+  pickup_date: string | null;
+  admin_note: string | null;
+  created_at: string;
+}
+
+export const RETURN_PHOTOS_BUCKET = 'return-photos';
+
+// Mirrors the window checked by public.create_return_request
+export const RETURN_WINDOW_DAYS = 7;
+
+export const MAX_RETURN_PHOTOS = 4;
+
+export const RETURN_REASONS = [
+  'Damaged or defective',
+  'Wrong item delivered',
+  'Item missing from package',
+  'Does not match description',
+  'Size or fit issue',
+];
+
+export const RETURN_STATUS_LABELS: Record<ReturnRequestStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  pickup_scheduled: 'Pickup scheduled',
+  closed: 'Completed',
+};
+
+// Mirrors the transitions allowed by public.update_return_request
+export const RETURN_STATUS_TRANSITIONS: Record<ReturnRequestStatus, ReturnRequestStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['pickup_scheduled'],
+  pickup_scheduled: ['closed'],
+  rejected: [],
+  closed: [],
+};
+
+export const getReturnStatusVariant = (status: string) => {
+  switch (status) {
+    case 'closed':
+      return 'default';
+    case 'rejected':
+      return 'destructive';
+    case 'requested':
+      return 'outline';
+    default:
+      return 'secondary';
+  }
+};
+
+// The item's open request, or else its latest rejected one; rejected requests do not block raising a new one
+export const getItemReturnRequest = (requests: ReturnRequest[], orderItemId: string) => {
+  const forItem = requests
+    .filter((request) => request.order_item_id === orderItemId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return forItem.find((request) => request.status !== 'rejected') ?? forItem.pop();
+};
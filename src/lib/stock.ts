@@ -0,0 +1,5 @@
+export const isOutOfStock = (stockQuantity: number) => stockQuantity <= 0;
+
+// "Only N left" is shown once stock is at or under the product's threshold
+export const isLowStock = (stockQuantity: number, lowStockThreshold: number) =>
+  stockQuantity > 0 && stockQuantity <= lowStockThreshold;
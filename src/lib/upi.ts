@@ -0,0 +1,42 @@
+export interface UpiPaymentRequest {
+  upiId: string;
+  merchantName: string;
+  amount: number;
+  note: string;
+}
+
+export interface UpiApp {
+  id: string;
+  name: string;
+  scheme: string;
+}
+
+// Apps that register their own scheme; everything else is reached through the generic upi:// intent
+export const UPI_APPS: UpiApp[] = [
+  { id: 'gpay', name: 'Google Pay', scheme: 'tez://upi/pay' },
+  { id: 'phonepe', name: 'PhonePe', scheme: 'phonepe://pay' },
+  { id: 'paytm', name: 'Paytm', scheme: 'paytmmp://pay' },
+  { id: 'bhim', name: 'BHIM', scheme: 'bhim://upi/pay' },
+];
+
+// Several UPI apps reject '+' for spaces, so parameters are percent-encoded rather than built with URLSearchParams
+const encodeParams = (params: Record<string, string>) =>
+  Object.entries(params)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&');
+
+// upi://pay link per the NPCI deep linking spec; tn (transaction note) shows up in the bank statement narration
+export const buildUpiUri = ({ upiId, merchantName, amount, note }: UpiPaymentRequest) =>
+  `upi://pay?${encodeParams({
+    pa: upiId,
+    pn: merchantName,
+    am: amount.toFixed(2),
+    cu: 'INR',
+    tn: note,
+  })}`;
+
+export const buildUpiAppLink = (app: UpiApp, upiUri: string) => upiUri.replace('upi://pay', app.scheme);
+
+// Short reference for a checkout session that fits in the transaction note and can be read back from a statement
+export const getPaymentReference = (checkoutSessionId: string) =>
+  `FM${checkoutSessionId.replace(/-/g, '').slice(0, 10).toUpperCase()}`;
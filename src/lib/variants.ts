@@ -0,0 +1,95 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type VariantOptions = Record<string, string>;
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  options: VariantOptions;
+  sku: string | null;
+  selling_price: number;
+  original_price: number;
+  stock_quantity: number;
+  image_urls: string[];
+  display_order: number;
+  is_active: boolean;
+}
+
+// Admin form state for one variant; numbers stay strings until saved, like the product form
+export interface VariantDraft {
+  id?: string;
+  options: VariantOptions;
+  sku: string;
+  selling_price: string;
+  original_price: string;
+  stock_quantity: string;
+  image_urls: string;
+  is_active: boolean;
+}
+
+// "Black, 128 GB": option values in the product's axis order
+export const formatVariantOptions = (options: VariantOptions, axes: string[]) =>
+  axes.map((axis) => options[axis]).filter(Boolean).join(', ');
+
+export const parseVariantAxes = (value: string) =>
+  [...new Set(value.split(',').map((axis) => axis.trim()).filter(Boolean))];
+
+// Distinct values of one axis in the order the variants list them
+export const getAxisValues = (variants: ProductVariant[], axis: string) =>
+  [...new Set(variants.map((variant) => variant.options[axis]).filter(Boolean))];
+
+export const findVariant = (variants: ProductVariant[], axes: string[], selection: VariantOptions) =>
+  variants.find((variant) => axes.every((axis) => variant.options[axis] === selection[axis]));
+
+export const toVariantDraft = (variant: ProductVariant): VariantDraft => ({
+  id: variant.id,
+  options: variant.options,
+  sku: variant.sku ?? '',
+  selling_price: variant.selling_price.toString(),
+  original_price: variant.original_price.toString(),
+  stock_quantity: variant.stock_quantity.toString(),
+  image_urls: variant.image_urls.join(', '),
+  is_active: variant.is_active,
+});
+
+// Returns a message for the first problem found, or null when the drafts can be saved
+export const validateVariantDrafts = (axes: string[], drafts: VariantDraft[]) => {
+  const seen = new Set<string>();
+  for (const draft of drafts) {
+    if (axes.some((axis) => !draft.options[axis]?.trim())) {
+      return `Every variant needs a value for ${axes.join(', ')}`;
+    }
+    if (!(parseFloat(draft.selling_price) > 0) || !(parseFloat(draft.original_price) > 0)) {
+      return 'Every variant needs a selling and original price';
+    }
+    const key = formatVariantOptions(draft.options, axes).toLowerCase();
+    if (seen.has(key)) {
+      return `There are two variants for ${formatVariantOptions(draft.options, axes)}`;
+    }
+    seen.add(key);
+  }
+  return null;
+};
+
+// Replaces a product's axes and variants with the admin's drafts, in one transaction on the server. Variants
+// missing from the drafts are deleted, which also drops them from carts; past orders keep their line with the
+// variant unset.
+export const saveProductVariants = async (productId: string, axes: string[], drafts: VariantDraft[]) => {
+  const variants = drafts.map((draft) => ({
+    id: draft.id ?? null,
+    options: Object.fromEntries(axes.map((axis) => [axis, draft.options[axis].trim()])),
+    sku: draft.sku.trim() || null,
+    selling_price: parseFloat(draft.selling_price),
+    original_price: parseFloat(draft.original_price),
+    stock_quantity: parseInt(draft.stock_quantity) || 0,
+    image_urls: draft.image_urls.split(',').map((url) => url.trim()).filter(Boolean),
+    is_active: draft.is_active,
+  }));
+
+  const { error } = await supabase.rpc('save_product_variants', {
+    _product_id: productId,
+    _axes: axes,
+    _variants: variants,
+  });
+  if (error) throw error;
+};
@@ -3,15 +3,32 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import AddAdminSection from '@/components/admin/AddAdminSection';
+import PaymentReconciliation from '@/components/admin/PaymentReconciliation';
+import FlaggedUtrAttempts from '@/components/admin/FlaggedUtrAttempts';
+import ReturnRequests from '@/components/admin/ReturnRequests';
+import MessageSettings from '@/components/admin/MessageSettings';
+import RefundDialog from '@/components/admin/RefundDialog';
+import OrderStatusDialog from '@/components/admin/OrderStatusDialog';
+import InvoiceButton from '@/components/orders/InvoiceButton';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Trash2, Edit, Package, ShoppingCart, Users, X, CreditCard, Save, Upload, QrCode, GripVertical, Shield, UserPlus, Loader2, Mail, ArrowLeft, Lock, Eye, EyeOff } from 'lucide-react';
+import { getOrderStatusLabel } from '@/lib/orderStatus';
+import { GST_RATES, GSTIN_PATTERN, isOrderInvoiceable } from '@/lib/invoice';
+import { INDIAN_STATES } from '@/lib/address';
+import { isLowStock, isOutOfStock } from '@/lib/stock';
+import { parseVariantAxes, ProductVariant, saveProductVariants, toVariantDraft, validateVariantDrafts, VariantDraft } from '@/lib/variants';
+import ProductVariantsEditor from '@/components/admin/ProductVariantsEditor';
+import ProductAttributeFields from '@/components/admin/ProductAttributeFields';
+import CategoryAttributes from '@/components/admin/CategoryAttributes';
+import { fetchProductAttributeValues, saveProductAttributeValues } from '@/lib/attributes';
+import { Plus, Trash2, Edit, Package, ShoppingCart, Users, X, CreditCard, Save, Upload, QrCode, GripVertical, Shield, UserPlus, Loader2, Mail, ArrowLeft, Lock, Eye, EyeOff, FileText } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import {
@@ -73,6 +90,16 @@ const SortableProductRow = ({ product, onEdit, onDelete }: SortableProductRowPro
       <td className="p-4 align-middle">{product.name}</td>
       <td className="p-4 align-middle">₹{product.original_price}</td>
       <td className="p-4 align-middle">₹{product.selling_price}</td>
+      <td className="p-4 align-middle">
+        <div className="flex items-center gap-2">
+          {product.stock_quantity}
+          {isOutOfStock(product.stock_quantity) ? (
+            <Badge variant="destructive">{product.stock_quantity < 0 ? 'Oversold' : 'Out'}</Badge>
+          ) : isLowStock(product.stock_quantity, product.low_stock_threshold) && (
+            <Badge variant="secondary">Low</Badge>
+          )}
+        </div>
+      </td>
       <td className="p-4 align-middle">
         <div className="flex gap-2">
           <Button variant="outline" size="sm" onClick={() => onEdit(product)}>
@@ -111,15 +138,22 @@ const Admin = () => {
   const [categories, setCategories] = useState<any[]>([]);
   const [orders, setOrders] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
-  const [productForm, setProductForm] = useState({ name: '', description: '', original_price: '', selling_price: '', image_urls: [''], category_id: '' });
+  const [productForm, setProductForm] = useState({ name: '', description: '', original_price: '', selling_price: '', image_urls: [''], category_id: '', hsn_code: '', gst_rate: '18', stock_quantity: '0', low_stock_threshold: '5', variant_axes: '' });
   const [categoryForm, setCategoryForm] = useState({ name: '', slug: '', image_url: '' });
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<any>(null);
-  const [editForm, setEditForm] = useState({ name: '', description: '', original_price: '', selling_price: '', image_urls: [''], category_id: '' });
+  const [editForm, setEditForm] = useState({ name: '', description: '', original_price: '', selling_price: '', image_urls: [''], category_id: '', hsn_code: '', gst_rate: '18', stock_quantity: '0', low_stock_threshold: '5', variant_axes: '' });
+  const [productVariants, setProductVariants] = useState<VariantDraft[]>([]);
+  const [editVariants, setEditVariants] = useState<VariantDraft[]>([]);
+  const [productAttributeValues, setProductAttributeValues] = useState<Record<string, string>>({});
+  const [editAttributeValues, setEditAttributeValues] = useState<Record<string, string>>({});
   const [upiSettings, setUpiSettings] = useState({ merchant_upi_id: '', merchant_name: '', merchant_qr_url: '' });
   const [savingSettings, setSavingSettings] = useState(false);
+  const [invoiceSettings, setInvoiceSettings] = useState({ seller_legal_name: '', seller_gstin: '', seller_address: '', seller_state: '' });
+  const [savingInvoiceSettings, setSavingInvoiceSettings] = useState(false);
   const [uploadingQr, setUploadingQr] = useState(false);
+  const [cashfreeConfig, setCashfreeConfig] = useState<{ mode: 'sandbox' | 'production'; configured: boolean; standIn: boolean } | null>(null);
   const [adminUsers, setAdminUsers] = useState<any[]>([]);
   const [newAdminEmail, setNewAdminEmail] = useState('');
   const [addingAdmin, setAddingAdmin] = useState(false);
@@ -137,16 +171,24 @@ const Admin = () => {
   }, [user, isAdmin, authLoading, navigate]);
 
   const fetchData = async () => {
-    const [productsRes, categoriesRes, ordersRes, settingsRes, adminRolesRes] = await Promise.all([
+    const [productsRes, categoriesRes, ordersRes, settingsRes, adminRolesRes, cashfreeConfigRes] = await Promise.all([
       supabase.from('products').select('*').order('display_order', { ascending: true }),
       supabase.from('categories').select('*').order('name'),
-      supabase.from('orders').select('*').order('created_at', { ascending: false }).limit(50),
+      supabase.from('orders').select('*, checkout_sessions(amount), refunds(*)').order('created_at', { ascending: false }).limit(50),
       supabase.from('settings').select('*'),
       supabase.from('user_roles').select('*').eq('role', 'admin'),
+      supabase.functions.invoke('cashfree-payment', { body: { action: 'get_config' } }),
     ]);
     if (productsRes.data) setProducts(productsRes.data);
     if (categoriesRes.data) setCategories(categoriesRes.data);
     if (ordersRes.data) setOrders(ordersRes.data);
+    if (cashfreeConfigRes.data?.success) {
+      setCashfreeConfig({
+        mode: cashfreeConfigRes.data.mode,
+        configured: cashfreeConfigRes.data.configured,
+        standIn: cashfreeConfigRes.data.standIn,
+      });
+    }
     if (settingsRes.data) {
       const settings: { [key: string]: string } = {};
       settingsRes.data.forEach((s: any) => {
@@ -157,6 +199,12 @@ const Admin = () => {
         merchant_name: settings['merchant_name'] || '',
         merchant_qr_url: settings['merchant_qr_url'] || '',
       });
+      setInvoiceSettings({
+        seller_legal_name: settings['seller_legal_name'] || '',
+        seller_gstin: settings['seller_gstin'] || '',
+        seller_address: settings['seller_address'] || '',
+        seller_state: settings['seller_state'] || '',
+      });
     }
     
     // Fetch admin user emails from profiles
@@ -209,6 +257,32 @@ const Admin = () => {
     }
   };
 
+  const handleSaveInvoiceSettings = async () => {
+    const gstin = invoiceSettings.seller_gstin.trim().toUpperCase();
+    if (gstin && !GSTIN_PATTERN.test(gstin)) {
+      toast({ title: 'Invalid GSTIN', description: 'Enter the 15-character GSTIN exactly as registered', variant: 'destructive' });
+      return;
+    }
+
+    setSavingInvoiceSettings(true);
+    try {
+      const { error } = await supabase
+        .from('settings')
+        .upsert(
+          Object.entries({ ...invoiceSettings, seller_gstin: gstin }).map(([key, value]) => ({ key, value: value.trim() })),
+          { onConflict: 'key' }
+        );
+      if (error) throw error;
+
+      setInvoiceSettings({ ...invoiceSettings, seller_gstin: gstin });
+      toast({ title: 'Invoice settings saved!' });
+    } catch (error: unknown) {
+      toast({ title: 'Error', description: error instanceof Error ? error.message : 'Failed to save settings', variant: 'destructive' });
+    } finally {
+      setSavingInvoiceSettings(false);
+    }
+  };
+
   const handleQrUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -368,6 +442,12 @@ const Admin = () => {
 
   const handleAddProduct = async () => {
     const validImageUrls = productForm.image_urls.filter(url => url.trim() !== '');
+    const variantAxes = parseVariantAxes(productForm.variant_axes);
+    const variantError = variantAxes.length > 0 ? validateVariantDrafts(variantAxes, productVariants) : null;
+    if (variantError) {
+      toast({ title: 'Check the variants', description: variantError, variant: 'destructive' });
+      return;
+    }
     // Get the max display_order and add 1 for new product
     const maxOrder = products.length > 0 ? Math.max(...products.map(p => p.display_order || 0)) : -1;
     const { data: productData, error } = await supabase.from('products').insert({
@@ -377,6 +457,10 @@ const Admin = () => {
       selling_price: parseFloat(productForm.selling_price),
       image_url: validImageUrls[0] || null,
       category_id: productForm.category_id || null,
+      hsn_code: productForm.hsn_code.trim() || null,
+      gst_rate: parseFloat(productForm.gst_rate),
+      stock_quantity: parseInt(productForm.stock_quantity) || 0,
+      low_stock_threshold: parseInt(productForm.low_stock_threshold) || 0,
       display_order: maxOrder + 1,
     }).select().single();
     
@@ -394,9 +478,27 @@ const Admin = () => {
       }));
       await supabase.from('product_images').insert(imageInserts);
     }
+
+    if (variantAxes.length > 0 && productVariants.length > 0 && productData) {
+      try {
+        await saveProductVariants(productData.id, variantAxes, productVariants);
+      } catch (error: unknown) {
+        toast({ title: 'Error saving variants', description: error instanceof Error ? error.message : String(error), variant: 'destructive' });
+      }
+    }
+    
+    if (productForm.category_id && productData) {
+      try {
+        await saveProductAttributeValues(productData.id, productAttributeValues);
+      } catch (error: unknown) {
+        toast({ title: 'Error saving specifications', description: error instanceof Error ? error.message : String(error), variant: 'destructive' });
+      }
+    }
     
     toast({ title: 'Product added!' }); 
-    setProductForm({ name: '', description: '', original_price: '', selling_price: '', image_urls: [''], category_id: '' });
+    setProductVariants([]);
+    setProductAttributeValues({});
+    setProductForm({ name: '', description: '', original_price: '', selling_price: '', image_urls: [''], category_id: '', hsn_code: '', gst_rate: '18', stock_quantity: '0', low_stock_threshold: '5', variant_axes: '' });
     setDialogOpen(false); 
     fetchData();
   };
@@ -444,6 +546,14 @@ const Admin = () => {
     const imageUrls = images && images.length > 0 
       ? images.map((img: any) => img.image_url) 
       : [product.image_url || ''];
+
+    const { data: variants } = await supabase
+      .from('product_variants')
+      .select('*')
+      .eq('product_id', product.id)
+      .order('display_order', { ascending: true });
+    setEditVariants(((variants ?? []) as ProductVariant[]).map(toVariantDraft));
+    setEditAttributeValues(await fetchProductAttributeValues(product.id).catch(() => ({})));
     
     setEditForm({
       name: product.name || '',
@@ -452,6 +562,11 @@ const Admin = () => {
       selling_price: product.selling_price?.toString() || '',
       image_urls: imageUrls,
       category_id: product.category_id || '',
+      hsn_code: product.hsn_code || '',
+      gst_rate: product.gst_rate?.toString() || '18',
+      stock_quantity: product.stock_quantity?.toString() || '0',
+      low_stock_threshold: product.low_stock_threshold?.toString() || '5',
+      variant_axes: (product.variant_axes ?? []).join(', '),
     });
     setEditDialogOpen(true);
   };
@@ -460,6 +575,12 @@ const Admin = () => {
     if (!editingProduct) return;
     
     const validImageUrls = editForm.image_urls.filter(url => url.trim() !== '');
+    const variantAxes = parseVariantAxes(editForm.variant_axes);
+    const variantError = variantAxes.length > 0 ? validateVariantDrafts(variantAxes, editVariants) : null;
+    if (variantError) {
+      toast({ title: 'Check the variants', description: variantError, variant: 'destructive' });
+      return;
+    }
     
     const { error } = await supabase
       .from('products')
@@ -470,6 +591,10 @@ const Admin = () => {
         selling_price: parseFloat(editForm.selling_price),
         image_url: validImageUrls[0] || null,
         category_id: editForm.category_id || null,
+        hsn_code: editForm.hsn_code.trim() || null,
+        gst_rate: parseFloat(editForm.gst_rate),
+        stock_quantity: parseInt(editForm.stock_quantity) || 0,
+        low_stock_threshold: parseInt(editForm.low_stock_threshold) || 0,
       })
       .eq('id', editingProduct.id);
     
@@ -489,6 +614,22 @@ const Admin = () => {
       }));
       await supabase.from('product_images').insert(imageInserts);
     }
+
+    try {
+      await saveProductVariants(editingProduct.id, variantAxes, variantAxes.length > 0 ? editVariants : []);
+    } catch (error: unknown) {
+      toast({ title: 'Error saving variants', description: error instanceof Error ? error.message : String(error), variant: 'destructive' });
+      return;
+    }
+
+    if (editForm.category_id) {
+      try {
+        await saveProductAttributeValues(editingProduct.id, editAttributeValues);
+      } catch (error: unknown) {
+        toast({ title: 'Error saving specifications', description: error instanceof Error ? error.message : String(error), variant: 'destructive' });
+        return;
+      }
+    }
     
     toast({ title: 'Product updated!' });
     setEditDialogOpen(false);
@@ -564,6 +705,9 @@ const Admin = () => {
             <TabsTrigger value="products">Products</TabsTrigger>
             <TabsTrigger value="categories">Categories</TabsTrigger>
             <TabsTrigger value="orders">Orders</TabsTrigger>
+            <TabsTrigger value="returns">Returns</TabsTrigger>
+            <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
+            <TabsTrigger value="flagged">Flagged</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
             <TabsTrigger value="admins">Admins</TabsTrigger>
           </TabsList>
@@ -579,6 +723,15 @@ const Admin = () => {
                       <div><Label>Name</Label><Input value={productForm.name} onChange={e => setProductForm({...productForm, name: e.target.value})} /></div>
                       <div><Label>Original Price (₹)</Label><Input type="number" value={productForm.original_price} onChange={e => setProductForm({...productForm, original_price: e.target.value})} /></div>
                       <div><Label>Selling Price (₹)</Label><Input type="number" value={productForm.selling_price} onChange={e => setProductForm({...productForm, selling_price: e.target.value})} /></div>
+                      <div><Label>Category</Label><select className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm" value={productForm.category_id} onChange={e => { setProductForm({...productForm, category_id: e.target.value}); setProductAttributeValues({}); }}><option value="">No category</option>{categories.map(category => <option key={category.id} value={category.id}>{category.name}</option>)}</select></div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div><Label>HSN Code</Label><Input value={productForm.hsn_code} onChange={e => setProductForm({...productForm, hsn_code: e.target.value})} /></div>
+                        <div><Label>GST Rate</Label><select className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm" value={productForm.gst_rate} onChange={e => setProductForm({...productForm, gst_rate: e.target.value})}>{GST_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></div>
+                      </div>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div><Label>Stock</Label><Input type="number" min="0" disabled={parseVariantAxes(productForm.variant_axes).length > 0 && productVariants.length > 0} value={productForm.stock_quantity} onChange={e => setProductForm({...productForm, stock_quantity: e.target.value})} /></div>
+                        <div><Label>Low Stock Alert At</Label><Input type="number" min="0" value={productForm.low_stock_threshold} onChange={e => setProductForm({...productForm, low_stock_threshold: e.target.value})} /></div>
+                      </div>
                       <div>
                         <div className="flex items-center justify-between mb-2">
                           <Label>Product Images</Label>
@@ -605,6 +758,19 @@ const Admin = () => {
                         <p className="text-xs text-muted-foreground mt-1">First image will be the main product image</p>
                       </div>
                       <div><Label>Description</Label><Textarea value={productForm.description} onChange={e => setProductForm({...productForm, description: e.target.value})} /></div>
+                      <ProductAttributeFields
+                        categoryId={productForm.category_id}
+                        values={productAttributeValues}
+                        onChange={setProductAttributeValues}
+                      />
+                      <ProductVariantsEditor
+                        axes={productForm.variant_axes}
+                        onAxesChange={variant_axes => setProductForm({...productForm, variant_axes})}
+                        variants={productVariants}
+                        onVariantsChange={setProductVariants}
+                        sellingPrice={productForm.selling_price}
+                        originalPrice={productForm.original_price}
+                      />
                       <Button onClick={handleAddProduct} className="w-full">Add Product</Button>
                     </div>
                   </DialogContent>
@@ -623,6 +789,7 @@ const Admin = () => {
                         <TableHead>Name</TableHead>
                         <TableHead>Original</TableHead>
                         <TableHead>Selling</TableHead>
+                        <TableHead>Stock</TableHead>
                         <TableHead>Actions</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -651,6 +818,15 @@ const Admin = () => {
                   <div><Label>Name</Label><Input value={editForm.name} onChange={e => setEditForm({...editForm, name: e.target.value})} /></div>
                   <div><Label>Original Price (₹)</Label><Input type="number" value={editForm.original_price} onChange={e => setEditForm({...editForm, original_price: e.target.value})} /></div>
                   <div><Label>Selling Price (₹)</Label><Input type="number" value={editForm.selling_price} onChange={e => setEditForm({...editForm, selling_price: e.target.value})} /></div>
+                  <div><Label>Category</Label><select className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm" value={editForm.category_id} onChange={e => { setEditForm({...editForm, category_id: e.target.value}); setEditAttributeValues({}); }}><option value="">No category</option>{categories.map(category => <option key={category.id} value={category.id}>{category.name}</option>)}</select></div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div><Label>HSN Code</Label><Input value={editForm.hsn_code} onChange={e => setEditForm({...editForm, hsn_code: e.target.value})} /></div>
+                    <div><Label>GST Rate</Label><select className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm" value={editForm.gst_rate} onChange={e => setEditForm({...editForm, gst_rate: e.target.value})}>{GST_RATES.map(rate => <option key={rate} value={rate}>{rate}%</option>)}</select></div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div><Label>Stock</Label><Input type="number" min="0" disabled={parseVariantAxes(editForm.variant_axes).length > 0 && editVariants.length > 0} value={editForm.stock_quantity} onChange={e => setEditForm({...editForm, stock_quantity: e.target.value})} /></div>
+                    <div><Label>Low Stock Alert At</Label><Input type="number" min="0" value={editForm.low_stock_threshold} onChange={e => setEditForm({...editForm, low_stock_threshold: e.target.value})} /></div>
+                  </div>
                   <div>
                     <div className="flex items-center justify-between mb-2">
                       <Label>Product Images</Label>
@@ -677,29 +853,93 @@ const Admin = () => {
                     <p className="text-xs text-muted-foreground mt-1">First image will be the main product image</p>
                   </div>
                   <div><Label>Description</Label><Textarea value={editForm.description} onChange={e => setEditForm({...editForm, description: e.target.value})} /></div>
+                  <ProductAttributeFields
+                    categoryId={editForm.category_id}
+                    values={editAttributeValues}
+                    onChange={setEditAttributeValues}
+                  />
+                  <ProductVariantsEditor
+                    axes={editForm.variant_axes}
+                    onAxesChange={variant_axes => setEditForm({...editForm, variant_axes})}
+                    variants={editVariants}
+                    onVariantsChange={setEditVariants}
+                    sellingPrice={editForm.selling_price}
+                    originalPrice={editForm.original_price}
+                  />
                   <Button onClick={handleUpdateProduct} className="w-full">Update Product</Button>
                 </div>
               </DialogContent>
             </Dialog>
           </TabsContent>
           
-          <TabsContent value="categories" className="mt-4">
+          <TabsContent value="categories" className="mt-4 space-y-4">
             <Card><CardHeader><CardTitle>Add Category</CardTitle></CardHeader><CardContent className="flex gap-4">
               <Input placeholder="Name" value={categoryForm.name} onChange={e => setCategoryForm({...categoryForm, name: e.target.value})} />
               <Input placeholder="Slug" value={categoryForm.slug} onChange={e => setCategoryForm({...categoryForm, slug: e.target.value})} />
               <Button onClick={handleAddCategory}>Add</Button>
             </CardContent></Card>
+            <CategoryAttributes categories={categories} />
           </TabsContent>
           
           <TabsContent value="orders" className="mt-4">
             <Card><CardHeader><CardTitle>Recent Orders</CardTitle></CardHeader><CardContent>
-              <Table><TableHeader><TableRow><TableHead>Order ID</TableHead><TableHead>Amount</TableHead><TableHead>Status</TableHead><TableHead>Date</TableHead></TableRow></TableHeader>
-                <TableBody>{orders.map(o => (<TableRow key={o.id}><TableCell className="font-mono">{o.id.slice(0,8)}...</TableCell><TableCell>₹{o.total_amount}</TableCell><TableCell>{o.status}</TableCell><TableCell>{new Date(o.created_at).toLocaleDateString()}</TableCell></TableRow>))}</TableBody>
+              <Table><TableHeader><TableRow><TableHead>Order ID</TableHead><TableHead>Amount</TableHead><TableHead>Status</TableHead><TableHead>Payment</TableHead><TableHead>Date</TableHead><TableHead>Actions</TableHead></TableRow></TableHeader>
+                <TableBody>{orders.map(o => (<TableRow key={o.id}><TableCell className="font-mono">{o.id.slice(0,8)}...</TableCell><TableCell>₹{o.total_amount}</TableCell><TableCell>{getOrderStatusLabel(o.status)}</TableCell><TableCell>{o.payment_status}</TableCell><TableCell>{new Date(o.created_at).toLocaleDateString()}</TableCell><TableCell><div className="flex gap-2"><OrderStatusDialog order={o} onUpdated={fetchData} /><RefundDialog order={o} onRefunded={fetchData} />{isOrderInvoiceable(o.status) && <InvoiceButton orderId={o.id} />}</div></TableCell></TableRow>))}</TableBody>
               </Table>
             </CardContent></Card>
           </TabsContent>
 
-          <TabsContent value="settings" className="mt-4">
+          <TabsContent value="returns" className="mt-4">
+            <ReturnRequests />
+          </TabsContent>
+
+          <TabsContent value="reconciliation" className="mt-4">
+            <PaymentReconciliation />
+          </TabsContent>
+
+          <TabsContent value="flagged" className="mt-4">
+            <FlaggedUtrAttempts />
+          </TabsContent>
+
+          <TabsContent value="settings" className="mt-4 space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Shield className="h-5 w-5" />
+                  Cashfree Gateway
+                  {cashfreeConfig && (
+                    <Badge
+                      className={cashfreeConfig.mode === 'production' ? 'bg-green-600 text-white' : 'bg-yellow-500 text-white'}
+                    >
+                      {cashfreeConfig.mode === 'production' ? 'Production' : 'Sandbox'}
+                    </Badge>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  The gateway mode is set by the CASHFREE_ENV secret on the server and cannot be changed here
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!cashfreeConfig ? (
+                  <p className="text-sm text-muted-foreground">Could not load the payment gateway configuration.</p>
+                ) : (
+                  <div className="space-y-1 text-sm">
+                    <p>
+                      {cashfreeConfig.mode === 'production'
+                        ? 'Live payments are enabled. Customers are charged real money.'
+                        : 'Sandbox mode. Payments use Cashfree test credentials and no money is charged.'}
+                    </p>
+                    {cashfreeConfig.standIn && (
+                      <p className="text-muted-foreground">Requests go to a local Cashfree stand-in (CASHFREE_BASE_URL).</p>
+                    )}
+                    {!cashfreeConfig.configured && (
+                      <p className="text-destructive">Cashfree credentials are not configured.</p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
@@ -721,7 +961,7 @@ const Admin = () => {
                       onChange={(e) => setUpiSettings({ ...upiSettings, merchant_upi_id: e.target.value })}
                     />
                     <p className="text-xs text-muted-foreground">
-                      This UPI ID will be used for receiving all customer payments (e.g., yourname@paytm, yourname@upi)
+                      This UPI ID will be used for receiving all customer payments (e.g., yourname@paytm, yourname@upi). Checkout generates a QR code for each order from it, with the amount and order reference filled in.
                     </p>
                   </div>
                   
@@ -780,7 +1020,7 @@ const Admin = () => {
                       </div>
                       <div className="flex-1">
                         <p className="text-sm text-muted-foreground">
-                          Upload your payment QR code image. This will be shown to customers during checkout for "Scan to Pay" option.
+                          Upload your payment QR code image. This is only shown to customers for "Scan to Pay" when no Merchant UPI ID is set.
                         </p>
                         <p className="text-xs text-muted-foreground mt-2">
                           Recommended: PNG or JPG, square aspect ratio (e.g., 400x400 pixels)
@@ -800,6 +1040,73 @@ const Admin = () => {
                 </Button>
               </CardContent>
             </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5" />
+                  Invoice Settings
+                </CardTitle>
+                <CardDescription>
+                  Seller details printed on GST tax invoices. Orders shipped to the same state are billed CGST + SGST, others IGST.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="seller_legal_name">Legal Name</Label>
+                    <Input
+                      id="seller_legal_name"
+                      value={invoiceSettings.seller_legal_name}
+                      onChange={(e) => setInvoiceSettings({ ...invoiceSettings, seller_legal_name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="seller_gstin">GSTIN</Label>
+                    <Input
+                      id="seller_gstin"
+                      placeholder="22AAAAA0000A1Z5"
+                      value={invoiceSettings.seller_gstin}
+                      onChange={(e) => setInvoiceSettings({ ...invoiceSettings, seller_gstin: e.target.value })}
+                      className="font-mono uppercase"
+                      maxLength={15}
+                    />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="seller_address">Registered Address</Label>
+                  <Textarea
+                    id="seller_address"
+                    value={invoiceSettings.seller_address}
+                    onChange={(e) => setInvoiceSettings({ ...invoiceSettings, seller_address: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="seller_state">State</Label>
+                  <select
+                    id="seller_state"
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    value={invoiceSettings.seller_state}
+                    onChange={(e) => setInvoiceSettings({ ...invoiceSettings, seller_state: e.target.value })}
+                  >
+                    <option value="">Select state</option>
+                    {INDIAN_STATES.map((state) => (
+                      <option key={state} value={state}>
+                        {state}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Button
+                  onClick={handleSaveInvoiceSettings}
+                  disabled={savingInvoiceSettings}
+                  className="w-full sm:w-auto"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {savingInvoiceSettings ? 'Saving...' : 'Save Invoice Settings'}
+                </Button>
+              </CardContent>
+            </Card>
+            <MessageSettings />
           </TabsContent>
 
           <TabsContent value="admins" className="mt-4">
@@ -7,9 +7,10 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Minus, Plus, Trash2, ShoppingBag } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { isLowStock, isOutOfStock } from '@/lib/stock';
 
 const Cart = () => {
-  const { items, loading, updateQuantity, removeFromCart, totalAmount } = useCart();
+  const { items, loading, updateQuantity, removeFromCart, totalAmount, hasOutOfStockItems } = useCart();
   const { user } = useAuth();
   const navigate = useNavigate();
 
@@ -69,9 +70,21 @@ const Cart = () => {
                       <h3 className="font-medium text-foreground line-clamp-2">
                         {item.product?.name}
                       </h3>
+                      {item.variant_label && (
+                        <p className="text-sm text-muted-foreground">{item.variant_label}</p>
+                      )}
                       <p className="text-lg font-bold text-foreground mt-2">
                         ₹{(item.product?.selling_price || 0).toLocaleString('en-IN')}
                       </p>
+                      {isOutOfStock(item.product.stock_quantity) ? (
+                        <p className="text-sm font-medium text-destructive mt-1">
+                          Out of stock. Remove it to place your order.
+                        </p>
+                      ) : isLowStock(item.product.stock_quantity, item.product.low_stock_threshold) && (
+                        <p className="text-sm text-destructive mt-1">
+                          Only {item.product.stock_quantity} left
+                        </p>
+                      )}
                       <div className="flex items-center gap-4 mt-4">
                         <div className="flex items-center border rounded">
                           <Button
@@ -87,6 +100,7 @@ const Cart = () => {
                             variant="ghost"
                             size="icon"
                             className="h-8 w-8"
+                            disabled={item.quantity >= item.product.stock_quantity}
                             onClick={() => updateQuantity(item.id, item.quantity + 1)}
                           >
                             <Plus className="h-4 w-4" />
@@ -135,10 +149,16 @@ const Cart = () => {
                 <Button
                   className="w-full mt-6 bg-orange-500 hover:bg-orange-600 text-white"
                   size="lg"
+                  disabled={hasOutOfStockItems}
                   onClick={() => navigate('/checkout')}
                 >
                   Place Order
                 </Button>
+                {hasOutOfStockItems && (
+                  <p className="text-xs text-destructive text-center mt-2">
+                    Some items in your cart are out of stock
+                  </p>
+                )}
               </CardContent>
             </Card>
           </div>
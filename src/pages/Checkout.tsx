@@ -11,6 +11,8 @@ import { Dialog, DialogContent } from '@/components/ui/dialog';
 import { useCart } from '@/contexts/CartContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/lib/functions';
+import { INDIAN_STATES } from '@/lib/address';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, CheckCircle, Truck, ArrowLeft, Check, Shield, CreditCard, QrCode } from 'lucide-react';
 import CashfreePayment from '@/components/checkout/CashfreePayment';
@@ -23,6 +25,24 @@ const COD_CHARGE = 59;
 
 type CheckoutStep = 'address' | 'summary' | 'payment';
 type PaymentMethod = 'cashfree' | 'scan' | 'cod';
+type FeePaymentMethod = 'scan' | 'cashfree';
+
+interface CheckoutSessionState {
+  id: string;
+  paymentMethod: PaymentMethod;
+  feePaymentMethod?: FeePaymentMethod;
+  expiresAt: string | null;
+  // What the shopper is charged, as priced by the server
+  amount: number;
+  // The address, contact and cart the session was created from
+  snapshot: string;
+}
+
+// Orders are either completed from a Cashfree redirect (the gateway order identifies the checkout
+// session) or confirmed in the page with a UPI reference against the session whose QR was shown
+type PlaceOrderRequest =
+  | { gatewayOrderId: string }
+  | { checkoutSessionId: string; paymentReference: string };
 
 const Checkout = () => {
   const { items, totalAmount, clearCart } = useCart();
@@ -33,11 +53,13 @@ const Checkout = () => {
   const [loading, setLoading] = useState(false);
   const [orderPlaced, setOrderPlaced] = useState(false);
   const [orderId, setOrderId] = useState<string | null>(null);
+  const [awaitingVerification, setAwaitingVerification] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cashfree');
   const [showCodModal, setShowCodModal] = useState(false);
-  const [codPaymentMethod, setCodPaymentMethod] = useState<'scan' | 'cashfree'>('scan');
+  const [codPaymentMethod, setCodPaymentMethod] = useState<FeePaymentMethod>('scan');
   const [currentStep, setCurrentStep] = useState<CheckoutStep>('address');
-  const [merchantSettings, setMerchantSettings] = useState({ upiId: 'merchant@paytm', merchantName: 'Flipkart', qrUrl: '' });
+  const [checkoutSession, setCheckoutSession] = useState<CheckoutSessionState | null>(null);
+  const [merchantSettings, setMerchantSettings] = useState({ upiId: '', merchantName: 'Flipkart', qrUrl: '' });
 
   const [formData, setFormData] = useState({
     fullName: '',
@@ -50,15 +72,6 @@ const Checkout = () => {
     roadName: '',
   });
 
-  const indianStates = [
-    'Andhra Pradesh', 'Arunachal Pradesh', 'Assam', 'Bihar', 'Chhattisgarh',
-    'Goa', 'Gujarat', 'Haryana', 'Himachal Pradesh', 'Jharkhand', 'Karnataka',
-    'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Manipur', 'Meghalaya', 'Mizoram',
-    'Nagaland', 'Odisha', 'Punjab', 'Rajasthan', 'Sikkim', 'Tamil Nadu',
-    'Telangana', 'Tripura', 'Uttar Pradesh', 'Uttarakhand', 'West Bengal',
-    'Delhi', 'Jammu and Kashmir', 'Ladakh'
-  ];
-
   // Fetch merchant settings
   useEffect(() => {
     const fetchSettings = async () => {
@@ -69,7 +82,7 @@ const Checkout = () => {
           settings[s.key] = s.value;
         });
         setMerchantSettings({
-          upiId: settings['merchant_upi_id'] || 'merchant@paytm',
+          upiId: settings['merchant_upi_id'] || '',
           merchantName: settings['merchant_name'] || 'Flipkart',
           qrUrl: settings['merchant_qr_url'] || '',
         });
@@ -93,38 +106,34 @@ const Checkout = () => {
           description: 'Your payment was not successful. Please try again.',
           variant: 'destructive',
         });
+      } else if (status === 'EXPIRED') {
+        toast({
+          title: 'Payment Expired',
+          description: 'Your payment session expired. Please try again.',
+          variant: 'destructive',
+        });
+      } else if (status === 'ACTIVE') {
+        toast({
+          title: 'Payment Not Completed',
+          description: 'We have not received your payment yet. Please try again.',
+          variant: 'destructive',
+        });
       }
     }
   }, [searchParams]);
 
   const verifyAndPlaceOrder = async (cfOrderId: string) => {
-    try {
-      const { data, error } = await supabase.functions.invoke('cashfree-payment', {
-        body: { action: 'verify_payment', orderId: cfOrderId },
-      });
-
-      if (error || !data.success) {
-        throw new Error('Payment verification failed');
-      }
-
-      if (data.paymentStatus === 'paid') {
-        await placeOrder(`CASHFREE:${cfOrderId}`, 'paid');
-      }
-    } catch (error: any) {
-      toast({
-        title: 'Error',
-        description: error.message || 'Payment verification failed',
-        variant: 'destructive',
-      });
-    }
+    // Cart and address are restored server-side from the checkout session linked to this payment
+    await placeOrder({ gatewayOrderId: cfOrderId });
   };
 
   // Calculate original price (before discount)
   const originalTotal = items.reduce((sum, item) => sum + (item.product?.original_price || 0) * item.quantity, 0);
   const discount = originalTotal - totalAmount;
 
-  // Redirect to cart if empty (allow guest checkout)
-  if (items.length === 0 && !orderPlaced) {
+  // Redirect to cart if empty (allow guest checkout). A payment return is still resolved when the
+  // cart has already been cleared, e.g. when the confirmation page is refreshed.
+  if (items.length === 0 && !orderPlaced && !searchParams.get('cf_order_id')) {
     navigate('/cart');
     return null;
   }
@@ -163,60 +172,86 @@ const Checkout = () => {
     setCurrentStep('payment');
   };
 
-  const placeOrder = async (paymentId: string, paymentStatus: string) => {
-    setLoading(true);
+  // Snapshot the cart, address and amount on the server before any payment is taken. The session is
+  // reused while the shopper stays on the same method, address and cart and its payment window is
+  // open, so a double-submitted confirmation maps to one order. Reusing a session renews its stock
+  // reservation, which would otherwise lapse while the shopper retries a payment.
+  const ensureCheckoutSession = async (method: PaymentMethod, feePaymentMethod?: FeePaymentMethod) => {
+    const snapshot = JSON.stringify({
+      address: formData,
+      items: items.map((item) => [item.id, item.product_id, item.variant_id, item.quantity]),
+    });
+    if (
+      checkoutSession &&
+      checkoutSession.paymentMethod === method &&
+      checkoutSession.feePaymentMethod === feePaymentMethod &&
+      checkoutSession.snapshot === snapshot &&
+      !(checkoutSession.expiresAt && new Date(checkoutSession.expiresAt).getTime() <= Date.now())
+    ) {
+      const { data, error } = await supabase.functions.invoke('checkout-session', {
+        body: { renewSessionId: checkoutSession.id },
+      });
 
-    try {
-      const shippingAddress = `${formData.fullName}\n${formData.phone}\n${formData.houseNo}, ${formData.roadName}\n${formData.city}, ${formData.state} - ${formData.pincode}`;
-
-      const orderData: any = {
-        total_amount: totalAmount,
-        shipping_address: shippingAddress,
-        status: 'confirmed',
-        payment_status: paymentStatus,
-        payment_id: paymentId,
-      };
-
-      if (user) {
-        orderData.user_id = user.id;
-      } else {
-        orderData.guest_email = formData.email;
-        orderData.guest_phone = formData.phone;
-      }
+      if (error) throw new Error(await getFunctionErrorMessage(error));
+      if (!data.success) throw new Error(data.error || 'Failed to start checkout');
+
+      return checkoutSession;
+    }
+
+    const { data, error } = await supabase.functions.invoke('checkout-session', {
+      body: {
+        ...(user
+          ? { cartItemIds: items.map((item) => item.id) }
+          : { guestItems: items.map((item) => ({ productId: item.product_id, variantId: item.variant_id, quantity: item.quantity })) }),
+        address: formData,
+        paymentMethod: method,
+        feePaymentMethod,
+      },
+    });
 
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert(orderData)
-        .select()
-        .single();
+    if (error) throw new Error(await getFunctionErrorMessage(error));
+    if (!data.success) throw new Error(data.error || 'Failed to start checkout');
 
-      if (orderError) throw orderError;
+    const session: CheckoutSessionState = {
+      id: data.checkoutSessionId,
+      paymentMethod: method,
+      feePaymentMethod,
+      expiresAt: data.expiresAt ?? null,
+      amount: Number(data.amount),
+      snapshot,
+    };
+    setCheckoutSession(session);
+    return session;
+  };
 
-      const orderItems = items.map((item) => ({
-        order_id: order.id,
-        product_id: item.product_id,
-        product_name: item.product?.name || 'Unknown Product',
-        quantity: item.quantity,
-        price: item.product?.selling_price || 0,
-      }));
+  const placeOrder = async (request: PlaceOrderRequest) => {
+    setLoading(true);
 
-      const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
+    try {
+      const body = 'gatewayOrderId' in request
+        ? { gatewayOrderId: request.gatewayOrderId }
+        : { checkoutSessionId: request.checkoutSessionId, paymentReference: request.paymentReference };
 
-      if (itemsError) throw itemsError;
+      const { data, error } = await supabase.functions.invoke('place-order', { body });
+
+      if (error) throw new Error(await getFunctionErrorMessage(error));
+      if (!data.success) throw new Error(data.error || 'Failed to place order');
 
       await clearCart();
 
-      setOrderId(order.id);
+      setOrderId(data.orderId);
+      // Scan & Pay UTRs are checked against the bank statement before the payment is confirmed
+      setAwaitingVerification('paymentReference' in request);
       setOrderPlaced(true);
 
       toast({
         title: 'Order Placed!',
         description: 'Your order has been placed successfully.',
       });
-    } catch (error: any) {
+    } catch (error: unknown) {
       toast({
         title: 'Error',
-        description: error.message || 'Failed to place order',
+        description: error instanceof Error ? error.message : 'Failed to place order',
         variant: 'destructive',
       });
     } finally {
@@ -224,12 +259,12 @@ const Checkout = () => {
     }
   };
 
-  const handleScanPayment = (utrNumber: string) => {
-    placeOrder(`SCAN:UPI:${utrNumber}`, 'paid');
+  const handleScanPayment = (checkoutSessionId: string, utrNumber: string) => {
+    placeOrder({ checkoutSessionId, paymentReference: utrNumber });
   };
 
   const handleCashfreeSuccess = (paymentId: string) => {
-    placeOrder(`CASHFREE:${paymentId}`, 'paid');
+    placeOrder({ gatewayOrderId: paymentId });
   };
 
   const handleCashfreeFailure = (error: string) => {
@@ -244,14 +279,14 @@ const Checkout = () => {
     setShowCodModal(true);
   };
 
-  const handleCODConfirmPayment = (utrNumber: string) => {
+  const handleCODConfirmPayment = (checkoutSessionId: string, utrNumber: string) => {
     setShowCodModal(false);
-    placeOrder(`COD:FEE_PAID:SCAN:${utrNumber}`, 'cod_fee_paid');
+    placeOrder({ checkoutSessionId, paymentReference: utrNumber });
   };
 
   const handleCODCashfreeSuccess = (paymentId: string) => {
     setShowCodModal(false);
-    placeOrder(`COD:FEE_PAID:CASHFREE:${paymentId}`, 'cod_fee_paid');
+    placeOrder({ gatewayOrderId: paymentId });
   };
 
   const handleCODCashfreeFailure = (error: string) => {
@@ -285,9 +320,18 @@ const Checkout = () => {
           <CheckCircle className="h-24 w-24 mx-auto text-green-600 mb-4" />
           <h1 className="text-3xl font-bold mb-4">Order Placed Successfully!</h1>
           <p className="text-muted-foreground mb-2">Thank you for your order</p>
-          <p className="text-sm text-muted-foreground mb-8">Order ID: {orderId}</p>
+          <p className={`text-sm text-muted-foreground ${awaitingVerification ? 'mb-2' : 'mb-8'}`}>Order ID: {orderId}</p>
+          {awaitingVerification && (
+            <p className="text-sm text-muted-foreground mb-8">
+              We are verifying your UPI payment. Your order will be processed once it is confirmed.
+            </p>
+          )}
           <div className="flex gap-4 justify-center">
-            <Button onClick={() => navigate('/orders')}>View Orders</Button>
+            {user ? (
+              <Button onClick={() => navigate('/orders')}>View Orders</Button>
+            ) : (
+              <Button onClick={() => navigate(`/track-order?order=${orderId}`)}>Track Order</Button>
+            )}
             <Button variant="outline" onClick={() => navigate('/')}>Continue Shopping</Button>
           </div>
         </main>
@@ -409,7 +453,7 @@ const Checkout = () => {
                 onChange={(e) => setFormData({ ...formData, state: e.target.value })}
                 className="h-14 text-base bg-background border border-input rounded-md px-3 focus:outline-none focus:ring-2 focus:ring-primary"
               >
-                {indianStates.map((state) => (
+                {INDIAN_STATES.map((state) => (
                   <option key={state} value={state}>
                     {state}
                   </option>
@@ -455,6 +499,9 @@ const Checkout = () => {
                     />
                     <div className="flex-1">
                       <h4 className="font-medium line-clamp-2 text-base">{item.product?.name}</h4>
+                      {item.variant_label && (
+                        <p className="text-sm text-muted-foreground">{item.variant_label}</p>
+                      )}
                       <div className="mt-2">
                         <span className="inline-flex items-center gap-1 bg-[#2874f0] text-white text-xs px-2 py-0.5 rounded">
                           <span className="font-bold italic">f</span>
@@ -598,7 +645,7 @@ const Checkout = () => {
                 {paymentMethod === 'cashfree' && (
                   <CashfreePayment
                     amount={totalAmount}
-                    orderId={`${Date.now()}`}
+                    createCheckoutSession={() => ensureCheckoutSession('cashfree')}
                     customerName={formData.fullName}
                     customerEmail={formData.email || user?.email || ''}
                     customerPhone={formData.phone}
@@ -613,6 +660,7 @@ const Checkout = () => {
                   <ScanToPayment
                     amount={totalAmount}
                     qrCodeUrl={merchantSettings.qrUrl || paytmQrCode}
+                    createCheckoutSession={() => ensureCheckoutSession('scan')}
                     onPaymentConfirm={handleScanPayment}
                     disabled={loading}
                     upiId={merchantSettings.upiId}
@@ -723,7 +771,7 @@ const Checkout = () => {
           {codPaymentMethod === 'cashfree' && (
             <CashfreePayment
               amount={COD_CHARGE}
-              orderId={`cod_${Date.now()}`}
+              createCheckoutSession={() => ensureCheckoutSession('cod', 'cashfree')}
               customerName={formData.fullName}
               customerEmail={formData.email || user?.email || ''}
               customerPhone={formData.phone}
@@ -737,6 +785,7 @@ const Checkout = () => {
             <ScanToPayment
               amount={COD_CHARGE}
               qrCodeUrl={merchantSettings.qrUrl || paytmQrCode}
+              createCheckoutSession={() => ensureCheckoutSession('cod', 'scan')}
               onPaymentConfirm={handleCODConfirmPayment}
               disabled={loading}
               upiId={merchantSettings.upiId}
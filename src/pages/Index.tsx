@@ -20,6 +20,7 @@ interface Product {
   selling_price: number;
   original_price: number;
   image_url: string | null;
+  stock_quantity: number;
   category_id: string | null;
 }
 
@@ -0,0 +1,255 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { parseShippingAddress } from '@/lib/address';
+import { getPaymentMethodLabel, parsePaymentId } from '@/lib/payments';
+import {
+  formatOrderDateTime,
+  getOrderStatusColor,
+  getOrderStatusLabel,
+  isOrderCancellable,
+  StatusHistoryEntry,
+} from '@/lib/orderStatus';
+import {
+  getItemReturnRequest,
+  getReturnStatusVariant,
+  RETURN_STATUS_LABELS,
+  RETURN_WINDOW_DAYS,
+  ReturnRequest,
+} from '@/lib/returns';
+import { isOrderInvoiceable } from '@/lib/invoice';
+import CancelOrderDialog from '@/components/orders/CancelOrderDialog';
+import InvoiceButton from '@/components/orders/InvoiceButton';
+import OrderStatusCard from '@/components/orders/OrderStatusCard';
+import ReturnRequestDialog from '@/components/orders/ReturnRequestDialog';
+import { ArrowLeft, Package } from 'lucide-react';
+
+interface OrderItem {
+  id: string;
+  product_name: string;
+  quantity: number;
+  price: number;
+}
+
+interface Order {
+  id: string;
+  total_amount: number;
+  status: string;
+  payment_status: string;
+  payment_id: string | null;
+  shipping_address: string | null;
+  courier_name: string | null;
+  awb_number: string | null;
+  tracking_url: string | null;
+  cancellation_reason: string | null;
+  created_at: string;
+  order_items: OrderItem[];
+  order_status_history: StatusHistoryEntry[];
+  return_requests: ReturnRequest[];
+}
+
+const OrderDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [order, setOrder] = useState<Order | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchOrder = useCallback(async () => {
+    if (!user || !id) return;
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (*),
+        order_status_history (*),
+        return_requests (*)
+      `)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .order('created_at', { referencedTable: 'order_status_history', ascending: true })
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching order:', error);
+    } else {
+      setOrder(data as Order | null);
+    }
+    setLoading(false);
+  }, [id, user]);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    fetchOrder();
+  }, [user, navigate, fetchOrder]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col bg-muted">
+        <Header />
+        <main className="flex-1 container mx-auto px-4 py-8">
+          <div className="animate-pulse space-y-4">
+            {[...Array(3)].map((_, i) => (
+              <div key={i} className="bg-card rounded-lg p-6 h-40"></div>
+            ))}
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen flex flex-col bg-muted">
+        <Header />
+        <main className="flex-1 container mx-auto px-4 py-16 text-center">
+          <Package className="h-24 w-24 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold mb-4">Order Not Found</h1>
+          <Button asChild>
+            <Link to="/orders">Back to My Orders</Link>
+          </Button>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const address = parseShippingAddress(order.shipping_address);
+  const payment = parsePaymentId(order.payment_id);
+  const deliveredAt = order.order_status_history.filter((entry) => entry.to_status === 'delivered').pop()?.created_at;
+  const canRequestReturn = order.status === 'delivered'
+    && (!deliveredAt || Date.now() - new Date(deliveredAt).getTime() < RETURN_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-muted">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-4 py-8 space-y-4">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/orders">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            My Orders
+          </Link>
+        </Button>
+
+        <Card>
+          <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Order ID</p>
+              <p className="font-mono text-sm break-all">{order.id}</p>
+              <p className="text-sm text-muted-foreground mt-1">Placed on {formatOrderDateTime(order.created_at)}</p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className={`${getOrderStatusColor(order.status)} text-white w-fit`}>
+                {getOrderStatusLabel(order.status)}
+              </Badge>
+              {isOrderCancellable(order.status) && <CancelOrderDialog order={order} onCancelled={fetchOrder} />}
+              {isOrderInvoiceable(order.status) && <InvoiceButton orderId={order.id} />}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <OrderStatusCard order={order} className="md:col-span-2" />
+
+          <div className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Delivery Address</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                {address ? (
+                  <>
+                    <p className="font-medium">{address.fullName}</p>
+                    <p>{address.line1}</p>
+                    <p>
+                      {address.city}
+                      {address.state && `, ${address.state}`}
+                      {address.pincode && ` - ${address.pincode}`}
+                    </p>
+                    <p className="text-muted-foreground">Phone: {address.phone}</p>
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">No address on file</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Payment</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p className="font-medium">{getPaymentMethodLabel(payment)}</p>
+                {payment && (
+                  <p className="text-muted-foreground">
+                    {payment.method === 'scan' || payment.feePaymentMethod === 'scan' ? 'UTR' : 'Reference'}{' '}
+                    <span className="font-mono break-all">{payment.reference}</span>
+                  </p>
+                )}
+                {order.payment_status === 'awaiting_verification' && (
+                  <Badge variant="outline">Payment verification pending</Badge>
+                )}
+                {order.payment_status === 'rejected' && (
+                  <Badge variant="destructive">Payment not received</Badge>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Items</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {order.order_items.map((item) => {
+              const returnRequest = getItemReturnRequest(order.return_requests, item.id);
+              return (
+                <div key={item.id} className="text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span>{item.product_name} × {item.quantity}</span>
+                    <span>₹{(item.price * item.quantity).toLocaleString('en-IN')}</span>
+                  </div>
+                  {returnRequest && (
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant={getReturnStatusVariant(returnRequest.status)}>
+                        {returnRequest.request_type === 'return' ? 'Return' : 'Replacement'}: {RETURN_STATUS_LABELS[returnRequest.status]}
+                      </Badge>
+                      {returnRequest.status === 'pickup_scheduled' && returnRequest.pickup_date && (
+                        <span>Pickup on {new Date(returnRequest.pickup_date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' })}</span>
+                      )}
+                      {returnRequest.admin_note && <span>{returnRequest.admin_note}</span>}
+                    </div>
+                  )}
+                  {canRequestReturn && user && (!returnRequest || returnRequest.status === 'rejected') && (
+                    <ReturnRequestDialog item={item} userId={user.id} onSubmitted={fetchOrder} />
+                  )}
+                </div>
+              );
+            })}
+            <div className="flex justify-between font-bold border-t pt-2">
+              <span>Total</span>
+              <span>₹{order.total_amount.toLocaleString('en-IN')}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default OrderDetail;
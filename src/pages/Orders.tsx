@@ -1,12 +1,19 @@
-import React, { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Package } from 'lucide-react';
+import { getRefundStatusVariant } from '@/lib/payments';
+import { getOrderStatusColor, getOrderStatusLabel, isOrderCancellable } from '@/lib/orderStatus';
+import { isOrderInvoiceable } from '@/lib/invoice';
+import CancelOrderDialog from '@/components/orders/CancelOrderDialog';
+import InvoiceButton from '@/components/orders/InvoiceButton';
+import { ChevronRight, Package } from 'lucide-react';
 
 interface OrderItem {
   id: string;
@@ -15,63 +22,110 @@ interface OrderItem {
   price: number;
 }
 
+interface Refund {
+  id: string;
+  amount: number;
+  status: string;
+  reason: string | null;
+  created_at: string;
+  processed_at: string | null;
+}
+
 interface Order {
   id: string;
   total_amount: number;
   status: string;
   payment_status: string;
+  payment_id: string | null;
   shipping_address: string | null;
   created_at: string;
   order_items: OrderItem[];
+  refunds: Refund[];
 }
 
+const REFUND_STATUS_LABELS: Record<string, string> = {
+  pending: 'Refund initiated',
+  processed: 'Refunded',
+  failed: 'Refund failed',
+  cancelled: 'Refund cancelled',
+};
+
 const Orders = () => {
   const { user } = useAuth();
+  const { toast } = useToast();
   const navigate = useNavigate();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // Gateway refunds settle asynchronously; ask for the latest status of any still pending
+  const refreshPendingRefunds = useCallback(async (loadedOrders: Order[]) => {
+    const pending = loadedOrders.flatMap((order) => order.refunds.filter((refund) => refund.status === 'pending'));
+    if (pending.length === 0) return;
+
+    const results = await Promise.all(
+      pending.map((refund) =>
+        supabase.functions.invoke('cashfree-payment', { body: { action: 'get_refund_status', refundId: refund.id } })
+      )
+    );
+    const updates = new Map<string, { status: string; processedAt: string | null }>();
+    results.forEach(({ data }) => {
+      if (data?.success) updates.set(data.refundId, { status: data.status, processedAt: data.processedAt });
+    });
+    if (updates.size === 0) return;
+
+    setOrders((prev) =>
+      prev.map((order) => ({
+        ...order,
+        refunds: order.refunds.map((refund) => {
+          const update = updates.get(refund.id);
+          return update ? { ...refund, status: update.status, processed_at: update.processedAt } : refund;
+        }),
+      }))
+    );
+  }, []);
+
+  // Guest orders placed with this account's verified email are moved over on the server
+  const claimGuestOrders = useCallback(async () => {
+    const { data: claimed, error } = await supabase.rpc('claim_guest_orders');
+    if (error) {
+      console.error('Error claiming guest orders:', error);
+    } else if (claimed > 0) {
+      toast({
+        title: 'Guest orders added',
+        description: `${claimed} order${claimed === 1 ? '' : 's'} you placed as a guest ${claimed === 1 ? 'is' : 'are'} now in your account.`,
+      });
+    }
+  }, [toast]);
+
+  const fetchOrders = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select(`
+        *,
+        order_items (*),
+        refunds (*)
+      `)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching orders:', error);
+    } else {
+      setOrders(data as Order[]);
+      refreshPendingRefunds(data as Order[]);
+    }
+    setLoading(false);
+  }, [user, refreshPendingRefunds]);
+
   useEffect(() => {
     if (!user) {
       navigate('/login');
       return;
     }
-
-    const fetchOrders = async () => {
-      const { data, error } = await supabase
-        .from('orders')
-        .select(`
-          *,
-          order_items (*)
-        `)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching orders:', error);
-      } else {
-        setOrders(data as Order[]);
-      }
-      setLoading(false);
-    };
-
-    fetchOrders();
-  }, [user, navigate]);
-
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'confirmed':
-        return 'bg-blue-500';
-      case 'shipped':
-        return 'bg-yellow-500';
-      case 'delivered':
-        return 'bg-green-500';
-      case 'cancelled':
-        return 'bg-red-500';
-      default:
-        return 'bg-gray-500';
-    }
-  };
+    claimGuestOrders().then(fetchOrders);
+  }, [user, navigate, claimGuestOrders, fetchOrders]);
 
   if (loading) {
     return (
@@ -133,9 +187,35 @@ const Orders = () => {
                     <p className="text-sm text-muted-foreground">Total</p>
                     <p className="font-bold">₹{order.total_amount.toLocaleString('en-IN')}</p>
                   </div>
-                  <Badge className={`${getStatusColor(order.status)} text-white`}>
-                    {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                  </Badge>
+                  <div className="flex flex-wrap gap-2">
+                    {order.payment_status === 'awaiting_verification' && (
+                      <Badge variant="outline">Payment verification pending</Badge>
+                    )}
+                    {order.payment_status === 'rejected' && (
+                      <Badge variant="destructive">Payment not received</Badge>
+                    )}
+                    {order.payment_status === 'refunded' && (
+                      <Badge variant="outline">Refunded</Badge>
+                    )}
+                    {order.payment_status === 'partially_refunded' && (
+                      <Badge variant="outline">Partially refunded</Badge>
+                    )}
+                    <Badge className={`${getOrderStatusColor(order.status)} text-white`}>
+                      {getOrderStatusLabel(order.status)}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {isOrderCancellable(order.status) && (
+                      <CancelOrderDialog order={order} onCancelled={fetchOrders} />
+                    )}
+                    {isOrderInvoiceable(order.status) && <InvoiceButton orderId={order.id} />}
+                    <Button variant="outline" size="sm" asChild>
+                      <Link to={`/orders/${order.id}`}>
+                        View details
+                        <ChevronRight className="h-4 w-4 ml-1" />
+                      </Link>
+                    </Button>
+                  </div>
                 </div>
 
                 <div className="border-t pt-4">
@@ -149,6 +229,32 @@ const Orders = () => {
                     ))}
                   </div>
                 </div>
+
+                {order.refunds.length > 0 && (
+                  <div className="border-t pt-4 mt-4">
+                    <p className="text-sm text-muted-foreground mb-2">Refunds</p>
+                    <div className="space-y-2">
+                      {order.refunds.map((refund) => (
+                        <div key={refund.id} className="flex justify-between items-center text-sm">
+                          <div>
+                            <span>₹{Number(refund.amount).toLocaleString('en-IN')}</span>
+                            {refund.reason && <span className="text-muted-foreground"> · {refund.reason}</span>}
+                            <p className="text-xs text-muted-foreground">
+                              {new Date(refund.processed_at || refund.created_at).toLocaleDateString('en-IN', {
+                                day: 'numeric',
+                                month: 'short',
+                                year: 'numeric',
+                              })}
+                            </p>
+                          </div>
+                          <Badge variant={getRefundStatusVariant(refund.status)}>
+                            {REFUND_STATUS_LABELS[refund.status] ?? refund.status}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           ))}
@@ -5,6 +5,10 @@ import Header from '@/components/layout/Header';
 import { Button } from '@/components/ui/button';
 import { ShoppingCart, Zap, Heart, Share2, ArrowLeft, RefreshCw, Truck, BadgeCheck } from 'lucide-react';
 import { useCart } from '@/contexts/CartContext';
+import { isLowStock, isOutOfStock } from '@/lib/stock';
+import { findVariant, ProductVariant, VariantOptions } from '@/lib/variants';
+import VariantPicker from '@/components/products/VariantPicker';
+import { formatAttributeValue, groupSpecifications, ProductSpecification } from '@/lib/attributes';
 
 interface Product {
   id: string;
@@ -14,6 +18,9 @@ interface Product {
   original_price: number;
   image_url: string | null;
   category_id: string | null;
+  stock_quantity: number;
+  low_stock_threshold: number;
+  variant_axes: string[];
 }
 
 interface ProductImage {
@@ -26,37 +33,21 @@ const ProductDetail = () => {
   const { id } = useParams<{ id: string }>();
   const [product, setProduct] = useState<Product | null>(null);
   const [allImages, setAllImages] = useState<string[]>([]);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [selection, setSelection] = useState<VariantOptions>({});
+  const [specifications, setSpecifications] = useState<ProductSpecification[]>([]);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
-  const [timeLeft, setTimeLeft] = useState({ minutes: 12, seconds: 59 });
   const { addToCart } = useCart();
   const navigate = useNavigate();
 
-  // Live countdown timer
-  useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeLeft(prev => {
-        if (prev.seconds > 0) {
-          return { ...prev, seconds: prev.seconds - 1 };
-        } else if (prev.minutes > 0) {
-          return { minutes: prev.minutes - 1, seconds: 59 };
-        } else {
-          // Reset timer for demo
-          return { minutes: 12, seconds: 59 };
-        }
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, []);
-
   useEffect(() => {
     const fetchProduct = async () => {
       if (!id) return;
       
-      const [productResult, imagesResult] = await Promise.all([
+      const [productResult, imagesResult, variantsResult, specificationsResult] = await Promise.all([
         supabase
           .from('products')
           .select('*')
@@ -67,7 +58,17 @@ const ProductDetail = () => {
           .from('product_images')
           .select('*')
           .eq('product_id', id)
-          .order('display_order', { ascending: true })
+          .order('display_order', { ascending: true }),
+        supabase
+          .from('product_variants')
+          .select('*')
+          .eq('product_id', id)
+          .eq('is_active', true)
+          .order('display_order', { ascending: true }),
+        supabase
+          .from('product_attribute_values')
+          .select('value, attribute:category_attributes(*)')
+          .eq('product_id', id)
       ]);
 
       if (productResult.error) {
@@ -81,6 +82,14 @@ const ProductDetail = () => {
           images.push(productResult.data.image_url);
         }
         setAllImages(images);
+
+        // Start on the first variant that can be bought
+        const productVariants = (variantsResult.data ?? []) as ProductVariant[];
+        setVariants(productVariants);
+        const initial = productVariants.find((variant) => !isOutOfStock(variant.stock_quantity)) ?? productVariants[0];
+        setSelection(initial?.options ?? {});
+
+        setSpecifications((specificationsResult.data ?? []) as ProductSpecification[]);
       }
       setLoading(false);
     };
@@ -88,15 +97,24 @@ const ProductDetail = () => {
     fetchProduct();
   }, [id]);
 
+  const hasVariants = !!product && product.variant_axes.length > 0 && variants.length > 0;
+  const selectedVariant = hasVariants ? findVariant(variants, product.variant_axes, selection) : undefined;
+  const variantImages = selectedVariant?.image_urls.length ? selectedVariant.image_urls : allImages;
+
+  const handleSelectVariant = (options: VariantOptions) => {
+    setSelection(options);
+    setCurrentImageIndex(0);
+  };
+
   const handleAddToCart = () => {
     if (product) {
-      addToCart(product.id);
+      addToCart(product.id, 1, selectedVariant?.id ?? null);
     }
   };
 
   const handleBuyNow = () => {
     if (product) {
-      addToCart(product.id);
+      addToCart(product.id, 1, selectedVariant?.id ?? null);
       navigate('/cart');
     }
   };
@@ -120,17 +138,22 @@ const ProductDetail = () => {
     const isLeftSwipe = distance > minSwipeDistance;
     const isRightSwipe = distance < -minSwipeDistance;
     
-    if (isLeftSwipe && allImages.length > 1) {
-      setCurrentImageIndex((prev) => (prev === allImages.length - 1 ? 0 : prev + 1));
+    if (isLeftSwipe && variantImages.length > 1) {
+      setCurrentImageIndex((prev) => (prev === variantImages.length - 1 ? 0 : prev + 1));
     }
-    if (isRightSwipe && allImages.length > 1) {
-      setCurrentImageIndex((prev) => (prev === 0 ? allImages.length - 1 : prev - 1));
+    if (isRightSwipe && variantImages.length > 1) {
+      setCurrentImageIndex((prev) => (prev === 0 ? variantImages.length - 1 : prev - 1));
     }
   };
 
+  // The chosen variant's price and stock stand in for the product's
+  const sellingPrice = selectedVariant?.selling_price ?? product?.selling_price ?? 0;
+  const originalPrice = selectedVariant?.original_price ?? product?.original_price ?? 0;
+  const stockQuantity = selectedVariant?.stock_quantity ?? product?.stock_quantity ?? 0;
   const discountPercent = product 
-    ? Math.round((1 - product.selling_price / product.original_price) * 100) 
+    ? Math.round((1 - sellingPrice / originalPrice) * 100) 
     : 0;
+  const outOfStock = !product || isOutOfStock(stockQuantity) || (hasVariants && !selectedVariant);
 
   if (loading) {
     return (
@@ -181,7 +204,7 @@ const ProductDetail = () => {
           {/* Main Image */}
           <div className="aspect-square bg-white flex items-center justify-center select-none">
             <img
-              src={allImages[currentImageIndex] || product.image_url || 'https://via.placeholder.com/600x600?text=Product'}
+              src={variantImages[currentImageIndex] || product.image_url || 'https://via.placeholder.com/600x600?text=Product'}
               alt={product.name}
               className="max-w-full max-h-full object-contain"
             />
@@ -198,9 +221,9 @@ const ProductDetail = () => {
           </div>
 
           {/* Dot Indicators */}
-          {allImages.length > 1 && (
+          {variantImages.length > 1 && (
             <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex gap-2">
-              {allImages.map((_, index) => (
+              {variantImages.map((_, index) => (
                 <button
                   key={index}
                   onClick={() => setCurrentImageIndex(index)}
@@ -232,22 +255,28 @@ const ProductDetail = () => {
               {discountPercent}% off
             </span>
             <span className="text-gray-400 line-through text-sm">
-              ₹{product.original_price.toLocaleString('en-IN')}
+              ₹{originalPrice.toLocaleString('en-IN')}
             </span>
             <span className="text-gray-900 font-bold text-xl">
-              ₹ {product.selling_price.toLocaleString('en-IN')}
+              ₹ {sellingPrice.toLocaleString('en-IN')}
             </span>
           </div>
 
-          {/* Offer Timer */}
-          <div className="bg-gray-50 p-3 rounded-lg mb-4">
-            <p className="text-center text-sm">
-              <span className="text-gray-700">Offer ends in</span>{' '}
-              <span className="text-orange-500 font-semibold">
-                {timeLeft.minutes}min {timeLeft.seconds.toString().padStart(2, '0')}sec
-              </span>
-            </p>
-          </div>
+          {hasVariants && (
+            <VariantPicker
+              axes={product.variant_axes}
+              variants={variants}
+              selection={selection}
+              onSelect={handleSelectVariant}
+            />
+          )}
+
+          {/* Stock Status */}
+          {outOfStock ? (
+            <p className="text-sm font-semibold text-red-600 mb-4">Out of stock</p>
+          ) : isLowStock(stockQuantity, product.low_stock_threshold) && (
+            <p className="text-sm font-medium text-red-600 mb-4">Hurry, only {stockQuantity} left!</p>
+          )}
 
           {/* Feature Badges */}
           <div className="flex justify-around py-4 border-t border-b border-gray-100 mb-4">
@@ -281,6 +310,28 @@ const ProductDetail = () => {
             </div>
           )}
 
+          {/* Specifications */}
+          {specifications.length > 0 && (
+            <div className="mb-4">
+              <h2 className="text-sm font-semibold text-gray-800 mb-2">Specifications</h2>
+              {groupSpecifications(specifications).map((group) => (
+                <div key={group.name} className="border border-gray-100 rounded mb-3">
+                  <h3 className="text-xs font-semibold text-gray-700 bg-gray-50 px-3 py-2">{group.name}</h3>
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {group.rows.map(({ attribute, value }) => (
+                        <tr key={attribute.id} className="border-t border-gray-100">
+                          <td className="px-3 py-2 text-gray-500 w-2/5 align-top">{attribute.name}</td>
+                          <td className="px-3 py-2 text-gray-800">{formatAttributeValue(attribute, value)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+
         </div>
       </main>
 
@@ -288,17 +339,19 @@ const ProductDetail = () => {
       <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 flex z-50">
         <button
           onClick={handleAddToCart}
-          className="flex-1 py-4 flex items-center justify-center gap-2 text-gray-700 font-medium text-sm bg-white active:bg-gray-50"
+          disabled={outOfStock}
+          className="flex-1 py-4 flex items-center justify-center gap-2 text-gray-700 font-medium text-sm bg-white active:bg-gray-50 disabled:opacity-50"
         >
           <ShoppingCart className="h-5 w-5" />
           Add to Cart
         </button>
         <button
           onClick={handleBuyNow}
-          className="flex-1 py-4 flex items-center justify-center gap-2 text-white font-medium text-sm bg-[#fb641b] active:bg-orange-600"
+          disabled={outOfStock}
+          className="flex-1 py-4 flex items-center justify-center gap-2 text-white font-medium text-sm bg-[#fb641b] active:bg-orange-600 disabled:opacity-50"
         >
           <Zap className="h-5 w-5" />
-          Buy Now
+          {outOfStock ? 'Out of Stock' : 'Buy Now'}
         </button>
       </div>
     </div>
@@ -3,87 +3,181 @@ import { useSearchParams } from 'react-router-dom';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
 import ProductCard from '@/components/products/ProductCard';
+import ProductFilterPanel from '@/components/products/ProductFilterPanel';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { SlidersHorizontal } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-
-interface Product {
-  id: string;
-  name: string;
-  selling_price: number;
-  original_price: number;
-  image_url: string | null;
-}
+import {
+  countActiveFilters,
+  parseProductFilters,
+  PRODUCTS_PER_PAGE,
+  ProductFilters,
+  ProductListing,
+  ProductSort,
+  SORT_OPTIONS,
+  updateProductFilters,
+} from '@/lib/productFilters';
 
 const Products = () => {
-  const [searchParams] = useSearchParams();
-  const [products, setProducts] = useState<Product[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [listing, setListing] = useState<ProductListing | null>(null);
   const [loading, setLoading] = useState(true);
-  const query = searchParams.get('q') || '';
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const filters = parseProductFilters(searchParams);
+  const paramsKey = searchParams.toString();
 
   useEffect(() => {
     const fetchProducts = async () => {
       setLoading(true);
-      let queryBuilder = supabase
-        .from('products')
-        .select('*')
-        .eq('is_active', true);
-
-      if (query) {
-        queryBuilder = queryBuilder.ilike('name', `%${query}%`);
-      }
-
-      const { data, error } = await queryBuilder.order('created_at', { ascending: false });
+      const current = parseProductFilters(new URLSearchParams(paramsKey));
+      // Filtering, sorting, search ranking and facet counts all happen in the database
+      const { data, error } = await supabase.rpc('browse_products', {
+        _query: current.query || undefined,
+        _category_slugs: current.categories.length > 0 ? current.categories : undefined,
+        _min_price: current.minPrice ?? undefined,
+        _max_price: current.maxPrice ?? undefined,
+        _min_discount: current.minDiscount ?? undefined,
+        _in_stock: current.inStock,
+        _sort: current.sort,
+        _limit: PRODUCTS_PER_PAGE,
+        _offset: (current.page - 1) * PRODUCTS_PER_PAGE,
+      });
 
       if (error) {
         console.error('Error fetching products:', error);
       } else {
-        setProducts(data || []);
+        setListing(data as unknown as ProductListing);
       }
       setLoading(false);
     };
 
     fetchProducts();
-  }, [query]);
+  }, [paramsKey]);
+
+  const handleFilterChange = (changes: Partial<ProductFilters>) => {
+    setSearchParams(updateProductFilters(searchParams, changes));
+  };
+
+  const goToPage = (page: number) => {
+    setSearchParams(updateProductFilters(searchParams, { page }));
+    window.scrollTo({ top: 0 });
+  };
+
+  const products = listing?.products ?? [];
+  const total = listing?.total ?? 0;
+  const pageCount = Math.ceil(total / PRODUCTS_PER_PAGE);
+  const activeFilterCount = countActiveFilters(filters);
 
   return (
     <div className="min-h-screen flex flex-col bg-muted">
       <Header />
       
       <main className="flex-1 container mx-auto px-4 py-8">
-        <h1 className="text-2xl font-bold mb-6">
-          {query ? `Search results for "${query}"` : 'All Products'}
-        </h1>
-
-        {loading ? (
-          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
-            {[...Array(10)].map((_, i) => (
-              <div key={i} className="bg-card rounded-lg p-4 animate-pulse">
-                <div className="aspect-square bg-muted-foreground/20 rounded mb-4"></div>
-                <div className="h-4 bg-muted-foreground/20 rounded mb-2"></div>
-                <div className="h-4 w-2/3 bg-muted-foreground/20 rounded"></div>
-              </div>
-            ))}
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold">
+              {filters.query ? `Search results for "${filters.query}"` : 'All Products'}
+            </h1>
+            {listing && (
+              <p className="text-sm text-muted-foreground">{total.toLocaleString('en-IN')} products</p>
+            )}
           </div>
-        ) : products.length > 0 ? (
-          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
-            {products.map((product) => (
-              <ProductCard
-                key={product.id}
-                id={product.id}
-                name={product.name}
-                sellingPrice={product.selling_price}
-                originalPrice={product.original_price}
-                imageUrl={product.image_url}
-              />
-            ))}
+          <div className="flex items-center gap-2">
+            <Sheet open={filtersOpen} onOpenChange={setFiltersOpen}>
+              <SheetTrigger asChild>
+                <Button variant="outline" className="md:hidden">
+                  <SlidersHorizontal className="h-4 w-4 mr-2" />
+                  Filters{activeFilterCount > 0 && ` (${activeFilterCount})`}
+                </Button>
+              </SheetTrigger>
+              <SheetContent side="left" className="overflow-y-auto">
+                <SheetHeader className="sr-only">
+                  <SheetTitle>Filters</SheetTitle>
+                </SheetHeader>
+                <ProductFilterPanel filters={filters} facets={listing?.facets ?? null} onChange={handleFilterChange} />
+                <Button className="w-full mt-6" onClick={() => setFiltersOpen(false)}>
+                  Show {total.toLocaleString('en-IN')} products
+                </Button>
+              </SheetContent>
+            </Sheet>
+            <Select value={filters.sort} onValueChange={(sort) => handleFilterChange({ sort: sort as ProductSort })}>
+              <SelectTrigger className="w-[190px] bg-background">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
-        ) : (
-          <div className="text-center py-16">
-            <h2 className="text-xl font-bold mb-2">No Products Found</h2>
-            <p className="text-muted-foreground">
-              {query ? 'Try a different search term' : 'Check back later for new products'}
-            </p>
+        </div>
+
+        <div className="flex gap-6">
+          <aside className="hidden md:block w-64 flex-shrink-0">
+            <div className="bg-card rounded-lg p-4 sticky top-24">
+              <ProductFilterPanel filters={filters} facets={listing?.facets ?? null} onChange={handleFilterChange} />
+            </div>
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            {loading ? (
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {[...Array(8)].map((_, i) => (
+                  <div key={i} className="bg-card rounded-lg p-4 animate-pulse">
+                    <div className="aspect-square bg-muted-foreground/20 rounded mb-4"></div>
+                    <div className="h-4 bg-muted-foreground/20 rounded mb-2"></div>
+                    <div className="h-4 w-2/3 bg-muted-foreground/20 rounded"></div>
+                  </div>
+                ))}
+              </div>
+            ) : products.length > 0 ? (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                  {products.map((product) => (
+                    <ProductCard
+                      key={product.id}
+                      id={product.id}
+                      name={product.name}
+                      sellingPrice={product.selling_price}
+                      originalPrice={product.original_price}
+                      imageUrl={product.image_url}
+                      // There are no reviews yet, so the listing shows no ratings
+                      rating={null}
+                      stockQuantity={product.stock_quantity}
+                      nameHighlight={product.name_highlight ?? undefined}
+                      snippet={product.snippet}
+                    />
+                  ))}
+                </div>
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-center gap-4 mt-8">
+                    <Button variant="outline" disabled={filters.page <= 1} onClick={() => goToPage(filters.page - 1)}>
+                      Previous
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      Page {filters.page} of {pageCount}
+                    </span>
+                    <Button variant="outline" disabled={filters.page >= pageCount} onClick={() => goToPage(filters.page + 1)}>
+                      Next
+                    </Button>
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-center py-16">
+                <h2 className="text-xl font-bold mb-2">No Products Found</h2>
+                <p className="text-muted-foreground">
+                  {activeFilterCount > 0
+                    ? 'Try removing some filters'
+                    : filters.query ? 'Try a different search term' : 'Check back later for new products'}
+                </p>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </main>
       
       <Footer />
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2, Save } from 'lucide-react';
+
+interface ProfileForm {
+  full_name: string;
+  phone: string;
+  sms_opt_out: boolean;
+  whatsapp_opt_out: boolean;
+}
+
+const Profile = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [form, setForm] = useState<ProfileForm>({ full_name: '', phone: '', sms_opt_out: false, whatsapp_opt_out: false });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+
+    const fetchProfile = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('full_name, phone, sms_opt_out, whatsapp_opt_out')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching profile:', error);
+      } else if (data) {
+        setForm({
+          full_name: data.full_name ?? '',
+          phone: data.phone ?? '',
+          sms_opt_out: data.sms_opt_out,
+          whatsapp_opt_out: data.whatsapp_opt_out,
+        });
+      }
+      setLoading(false);
+    };
+
+    fetchProfile();
+  }, [user, navigate]);
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const phone = form.phone.trim();
+    if (phone && !/^[6-9]\d{9}$/.test(phone)) {
+      toast({ title: 'Invalid phone number', description: 'Enter a 10-digit mobile number', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        full_name: form.full_name.trim() || null,
+        phone: phone || null,
+        sms_opt_out: form.sms_opt_out,
+        whatsapp_opt_out: form.whatsapp_opt_out,
+      })
+      .eq('user_id', user.id);
+    setSaving(false);
+
+    if (error) {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Profile saved' });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-muted">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <Card className="max-w-xl mx-auto">
+          <CardHeader>
+            <CardTitle>My Profile</CardTitle>
+            <CardDescription>{user?.email}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="full_name">Full Name</Label>
+                    <Input
+                      id="full_name"
+                      value={form.full_name}
+                      onChange={(e) => setForm({ ...form, full_name: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="phone">Mobile Number</Label>
+                    <Input
+                      id="phone"
+                      type="tel"
+                      maxLength={10}
+                      value={form.phone}
+                      onChange={(e) => setForm({ ...form, phone: e.target.value.replace(/\D/g, '') })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Order updates are sent here. Without one, we use the number from the delivery address.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-4 border-t pt-4">
+                  <p className="font-medium">Order updates</p>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="sms_updates" className="font-normal">SMS</Label>
+                    <Switch
+                      id="sms_updates"
+                      checked={!form.sms_opt_out}
+                      onCheckedChange={(checked) => setForm({ ...form, sms_opt_out: !checked })}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="whatsapp_updates" className="font-normal">WhatsApp</Label>
+                    <Switch
+                      id="whatsapp_updates"
+                      checked={!form.whatsapp_opt_out}
+                      onCheckedChange={(checked) => setForm({ ...form, whatsapp_opt_out: !checked })}
+                    />
+                  </div>
+                </div>
+
+                <Button onClick={handleSave} disabled={saving} className="w-full sm:w-auto">
+                  <Save className="h-4 w-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Profile;
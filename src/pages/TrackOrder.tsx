@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { formatOrderDateTime, getOrderStatusColor, getOrderStatusLabel, StatusHistoryEntry } from '@/lib/orderStatus';
+import OrderStatusCard from '@/components/orders/OrderStatusCard';
+import { Loader2, UserPlus } from 'lucide-react';
+
+interface TrackedOrder {
+  id: string;
+  status: string;
+  payment_status: string;
+  total_amount: number;
+  shipping_state: string | null;
+  courier_name: string | null;
+  awb_number: string | null;
+  tracking_url: string | null;
+  cancellation_reason: string | null;
+  created_at: string;
+  order_items: { id: string; product_name: string; quantity: number; price: number }[];
+  order_status_history: StatusHistoryEntry[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TrackOrder = () => {
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [orderId, setOrderId] = useState(searchParams.get('order') ?? '');
+  const [contact, setContact] = useState('');
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedId = orderId.trim();
+    if (!UUID_PATTERN.test(trimmedId)) {
+      toast({
+        title: 'Invalid order ID',
+        description: 'Use the full order ID from your confirmation',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase.rpc('lookup_guest_order', {
+      _order_id: trimmedId,
+      _contact: contact.trim(),
+    });
+    setLoading(false);
+
+    if (error) {
+      setOrder(null);
+      toast({ title: 'Order not found', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setOrder(data as unknown as TrackedOrder);
+  };
+
+  const contactEmail = contact.includes('@') ? contact.trim() : '';
+
+  return (
+    <div className="min-h-screen flex flex-col bg-muted">
+      <Header />
+
+      <main className="flex-1 container mx-auto px-4 py-8 space-y-4">
+        <Card className="max-w-xl mx-auto">
+          <CardHeader>
+            <CardTitle>Track your order</CardTitle>
+            <CardDescription>
+              Enter the order ID from your confirmation and the email address or phone number used at checkout.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="order_id">Order ID</Label>
+                <Input
+                  id="order_id"
+                  className="font-mono"
+                  value={orderId}
+                  onChange={(e) => setOrderId(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="contact">Email or phone number</Label>
+                <Input id="contact" value={contact} onChange={(e) => setContact(e.target.value)} required />
+              </div>
+              <Button type="submit" className="w-full" disabled={loading}>
+                {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Track Order
+              </Button>
+            </form>
+            {user && (
+              <p className="text-sm text-muted-foreground text-center mt-4">
+                Orders placed while signed in are under{' '}
+                <Link to="/orders" className="text-primary hover:underline">
+                  My Orders
+                </Link>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {order && (
+          <>
+            <Card>
+              <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">Order ID</p>
+                  <p className="font-mono text-sm break-all">{order.id}</p>
+                  <p className="text-sm text-muted-foreground mt-1">Placed on {formatOrderDateTime(order.created_at)}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge className={`${getOrderStatusColor(order.status)} text-white w-fit`}>
+                    {getOrderStatusLabel(order.status)}
+                  </Badge>
+                  {order.payment_status === 'awaiting_verification' && (
+                    <Badge variant="outline">Payment verification pending</Badge>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid md:grid-cols-3 gap-4">
+              <OrderStatusCard order={order} className="md:col-span-2" />
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Items</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {order.order_items.map((item) => (
+                    <div key={item.id} className="flex justify-between text-sm">
+                      <span>{item.product_name} × {item.quantity}</span>
+                      <span>₹{(item.price * item.quantity).toLocaleString('en-IN')}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between font-bold border-t pt-2">
+                    <span>Total</span>
+                    <span>₹{order.total_amount.toLocaleString('en-IN')}</span>
+                  </div>
+                  {order.shipping_state && (
+                    <p className="text-xs text-muted-foreground">Delivering to {order.shipping_state}</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {!user && (
+              <Card>
+                <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div className="flex items-start gap-3">
+                    <UserPlus className="h-5 w-5 text-primary mt-0.5" />
+                    <div>
+                      <p className="font-medium">Keep your orders in one place</p>
+                      <p className="text-sm text-muted-foreground">
+                        Create an account with the email address you used at checkout. Once it is verified, your guest
+                        orders are added to My Orders, where you can also cancel, return and download invoices.
+                      </p>
+                    </div>
+                  </div>
+                  <Button asChild className="shrink-0">
+                    <Link to={contactEmail ? `/signup?email=${encodeURIComponent(contactEmail)}` : '/signup'}>
+                      Create Account
+                    </Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default TrackOrder;
@@ -0,0 +1,16 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+
+// Same check the RLS policies use, for actions that run with the service role
+export const isAdmin = async (supabase: SupabaseClient, userId: string) => {
+  const { data, error } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+  if (error) throw error;
+  return data === true;
+};
+
+// Acts as the caller, so RLS and auth.uid() inside RPCs apply as if the request came from the browser
+export const createUserClient = (req: Request) =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } },
+  );
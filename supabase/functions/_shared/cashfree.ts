@@ -0,0 +1,116 @@
+const API_VERSION = '2023-08-01';
+
+export type CashfreeMode = 'sandbox' | 'production';
+
+const BASE_URLS: Record<CashfreeMode, string> = {
+  production: 'https://api.cashfree.com/pg',
+  sandbox: 'https://sandbox.cashfree.com/pg',
+};
+
+// Live payments must be opted into explicitly with CASHFREE_ENV=production
+export const getCashfreeMode = (): CashfreeMode =>
+  Deno.env.get('CASHFREE_ENV') === 'production' ? 'production' : 'sandbox';
+
+// CASHFREE_BASE_URL points the functions at a stand-in API (see scripts/cashfree-mock.js)
+export const isCashfreeStandIn = () => !!Deno.env.get('CASHFREE_BASE_URL');
+
+export const getCashfreeBaseUrl = () => Deno.env.get('CASHFREE_BASE_URL') || BASE_URLS[getCashfreeMode()];
+
+export interface CashfreeCredentials {
+  appId: string;
+  secretKey: string;
+}
+
+export const getCashfreeCredentials = (): CashfreeCredentials | null => {
+  const appId = Deno.env.get('CASHFREE_APP_ID');
+  const secretKey = Deno.env.get('CASHFREE_SECRET_KEY');
+  return appId && secretKey ? { appId, secretKey } : null;
+};
+
+export const cashfreeHeaders = ({ appId, secretKey }: CashfreeCredentials) => ({
+  'x-api-version': API_VERSION,
+  'x-client-id': appId,
+  'x-client-secret': secretKey,
+});
+
+// Fetch an order from Cashfree. Returns the raw response so callers can decide how to surface errors.
+export const fetchCashfreeOrder = async (credentials: CashfreeCredentials, orderId: string) => {
+  const response = await fetch(`${getCashfreeBaseUrl()}/orders/${encodeURIComponent(orderId)}`, {
+    method: 'GET',
+    headers: cashfreeHeaders(credentials),
+  });
+  const data = await response.json();
+  return { ok: response.ok, status: response.status, data };
+};
+
+export interface CashfreeRefundRequest {
+  refund_id: string;
+  refund_amount: number;
+  refund_note?: string;
+}
+
+export const createCashfreeRefund = async (
+  credentials: CashfreeCredentials,
+  orderId: string,
+  refund: CashfreeRefundRequest,
+) => {
+  const response = await fetch(`${getCashfreeBaseUrl()}/orders/${encodeURIComponent(orderId)}/refunds`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...cashfreeHeaders(credentials),
+    },
+    body: JSON.stringify(refund),
+  });
+  const data = await response.json();
+  return { ok: response.ok, status: response.status, data };
+};
+
+export const fetchCashfreeRefund = async (credentials: CashfreeCredentials, orderId: string, refundId: string) => {
+  const response = await fetch(
+    `${getCashfreeBaseUrl()}/orders/${encodeURIComponent(orderId)}/refunds/${encodeURIComponent(refundId)}`,
+    { method: 'GET', headers: cashfreeHeaders(credentials) },
+  );
+  const data = await response.json();
+  return { ok: response.ok, status: response.status, data };
+};
+
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// Cashfree signs webhooks as base64(HMAC-SHA256(timestamp + rawBody, secret))
+export const computeWebhookSignature = async (timestamp: string, rawBody: string, secret: string) => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(timestamp + rawBody));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+};
+
+export const verifyWebhookSignature = async (
+  rawBody: string,
+  timestamp: string | null,
+  signature: string | null,
+  secret: string,
+) => {
+  if (!timestamp || !signature) return false;
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() - sentAt) > SIGNATURE_TOLERANCE_MS) return false;
+
+  const expected = await computeWebhookSignature(timestamp, rawBody, secret);
+  return timingSafeEqual(expected, signature);
+};
@@ -0,0 +1,187 @@
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+
+export type PaymentMethod = 'cashfree' | 'scan' | 'cod';
+export type FeePaymentMethod = 'cashfree' | 'scan';
+
+export interface CheckoutAddress {
+  fullName: string;
+  email?: string;
+  phone: string;
+  pincode: string;
+  city: string;
+  state: string;
+  houseNo: string;
+  roadName?: string;
+}
+
+export interface CheckoutItem {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  quantity: number;
+  price: number;
+}
+
+export interface CheckoutSession {
+  id: string;
+  user_id: string | null;
+  guest_email: string | null;
+  guest_phone: string | null;
+  items: CheckoutItem[];
+  address: CheckoutAddress;
+  payment_method: PaymentMethod;
+  fee_payment_method: FeePaymentMethod | null;
+  subtotal: number;
+  cod_charge: number;
+  amount: number;
+  total_amount: number;
+  gateway_order_id: string | null;
+  expires_at: string | null;
+  status: 'pending' | 'completed';
+  order_id: string | null;
+}
+
+export const createServiceClient = () =>
+  createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  );
+
+// Guests call with the anon key, which does not resolve to a user
+export const getRequestUser = async (supabase: SupabaseClient, req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+  const { data: { user } } = await supabase.auth.getUser(token);
+  return user;
+};
+
+export const isPaidViaCashfree = (session: Pick<CheckoutSession, 'payment_method' | 'fee_payment_method'>) =>
+  session.payment_method === 'cashfree' || (session.payment_method === 'cod' && session.fee_payment_method === 'cashfree');
+
+// How long a shopper has to complete a Scan & Pay transfer once the QR is shown
+export const SCAN_PAYMENT_WINDOW_MINUTES = 10;
+
+// UTRs are typed in after the transfer, so confirmations arriving shortly after the window are still accepted
+const SCAN_PAYMENT_GRACE_MS = 2 * 60 * 1000;
+
+export const isCheckoutExpired = (session: Pick<CheckoutSession, 'expires_at'>) =>
+  !!session.expires_at && new Date(session.expires_at).getTime() + SCAN_PAYMENT_GRACE_MS < Date.now();
+
+// Cashfree sessions have no expiry of their own, so their stock is held for as long as a payment link stays usable
+const CASHFREE_RESERVATION_MINUTES = 30;
+
+// Stock stays reserved for as long as the session can still turn into an order
+export const getReservationExpiry = (expiresAt: string | null) =>
+  new Date(
+    expiresAt
+      ? new Date(expiresAt).getTime() + SCAN_PAYMENT_GRACE_MS
+      : Date.now() + CASHFREE_RESERVATION_MINUTES * 60 * 1000,
+  ).toISOString();
+
+// Raised by reserve_checkout_stock when an item cannot be covered
+export const isStockShortage = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === '23514';
+
+const formatShippingAddress = (address: CheckoutAddress) =>
+  `${address.fullName}\n${address.phone}\n${address.houseNo}, ${address.roadName || ''}\n${address.city}, ${address.state} - ${address.pincode}`;
+
+// Scan & Pay references are typed in by the shopper, so those orders wait for an admin to match the UTR
+// against the bank statement before they count as paid
+const paymentDetails = (session: CheckoutSession, reference: string) => {
+  if (session.payment_method === 'cod') {
+    const paidViaCashfree = session.fee_payment_method === 'cashfree';
+    return {
+      paymentId: `COD:FEE_PAID:${paidViaCashfree ? 'CASHFREE' : 'SCAN'}:${reference}`,
+      paymentStatus: paidViaCashfree ? 'cod_fee_paid' : 'awaiting_verification',
+    };
+  }
+  if (session.payment_method === 'cashfree') {
+    return { paymentId: `CASHFREE:${reference}`, paymentStatus: 'paid' };
+  }
+  return { paymentId: `SCAN:UPI:${reference}`, paymentStatus: 'awaiting_verification' };
+};
+
+// The session a Cashfree order was issued for. A session can have several, so any of them is matched.
+export const findSessionByGatewayOrder = async (supabase: SupabaseClient, gatewayOrderId: string) => {
+  const { data: link, error: linkError } = await supabase
+    .from('checkout_gateway_orders')
+    .select('checkout_session_id')
+    .eq('gateway_order_id', gatewayOrderId)
+    .maybeSingle();
+  if (linkError) throw linkError;
+  if (!link) return null;
+
+  const { data: session, error: sessionError } = await supabase
+    .from('checkout_sessions')
+    .select('*')
+    .eq('id', link.checkout_session_id)
+    .maybeSingle<CheckoutSession>();
+  if (sessionError) throw sessionError;
+  return session;
+};
+
+// Write the order for a checkout session whose payment has been confirmed. Safe to call more than once:
+// Cashfree orders are keyed on the gateway order and scan payments on the session itself.
+export const placeOrderFromSession = async (supabase: SupabaseClient, session: CheckoutSession, reference: string) => {
+  const { paymentId, paymentStatus } = paymentDetails(session, reference);
+  const orderKey = isPaidViaCashfree(session) ? `cashfree:${reference}` : `checkout:${session.id}`;
+
+  const { data: orderId, error: orderError } = await supabase.rpc('place_order', {
+    _order: {
+      user_id: session.user_id,
+      guest_email: session.guest_email,
+      guest_phone: session.guest_phone,
+      total_amount: session.total_amount,
+      shipping_address: formatShippingAddress(session.address),
+      shipping_state: session.address.state,
+      // Orders waiting on a UTR check only move to confirmed once the payment is approved
+      status: paymentStatus === 'awaiting_verification' ? 'pending_payment' : 'confirmed',
+      payment_status: paymentStatus,
+      payment_id: paymentId,
+      idempotency_key: orderKey,
+      utr: isPaidViaCashfree(session) ? null : reference,
+      checkout_session_id: session.id,
+    },
+    _items: session.items,
+  });
+
+  if (orderError) throw orderError;
+
+  const { error: sessionError } = await supabase
+    .from('checkout_sessions')
+    .update({ status: 'completed', order_id: orderId })
+    .eq('id', session.id);
+
+  if (sessionError) throw sessionError;
+
+  return orderId as string;
+};
+
+// Scan & Pay references are 12-digit UPI transaction numbers (UTR / RRN)
+export const UTR_PATTERN = /^\d{12}$/;
+
+// Unique violation on orders.utr, raised when two checkouts race with the same UTR
+export const isUtrConflict = (error: unknown) =>
+  typeof error === 'object' && error !== null &&
+  (error as { code?: string }).code === '23505' &&
+  String((error as { message?: string }).message).includes('orders_utr_key');
+
+// Record a checkout refused for reusing a UTR so admins can follow up on it
+export const flagUtrReuse = async (
+  supabase: SupabaseClient,
+  session: CheckoutSession,
+  utr: string,
+  existingOrderId: string | null,
+) => {
+  const { error } = await supabase.from('flagged_utr_attempts').insert({
+    utr,
+    checkout_session_id: session.id,
+    existing_order_id: existingOrderId,
+    user_id: session.user_id,
+    guest_email: session.guest_email,
+    amount: session.amount,
+  });
+
+  if (error) console.error('Failed to flag UTR reuse:', error);
+  console.warn('UTR reuse refused:', { utr, checkoutSessionId: session.id, existingOrderId });
+};
@@ -0,0 +1,74 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+const getSender = () => Deno.env.get('EMAIL_FROM') || 'Flipmart <no-reply@flipmart.local>';
+
+// Prints emails to the function logs instead of sending them
+export const createConsoleTransport = (): EmailTransport => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`[email] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  },
+});
+
+// Any SMTP server: a real relay in production, or the Inbucket catcher from `supabase start` locally
+// (SMTP_HOST=host.docker.internal, SMTP_PORT=54325)
+export const createSmtpTransport = (): EmailTransport => {
+  const hostname = Deno.env.get('SMTP_HOST') ?? '';
+  const port = Number(Deno.env.get('SMTP_PORT') || 587);
+  const tls = Deno.env.get('SMTP_TLS') === 'true';
+  const username = Deno.env.get('SMTP_USER');
+  const password = Deno.env.get('SMTP_PASSWORD');
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          tls,
+          ...(username && password ? { auth: { username, password } } : {}),
+        },
+        // Local catchers speak plain SMTP
+        debug: { allowUnsecure: !tls },
+      });
+
+      try {
+        await client.send({
+          from: getSender(),
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+};
+
+// EMAIL_TRANSPORT picks the transport; without it, SMTP is used once SMTP_HOST is set
+export const createEmailTransport = (): EmailTransport => {
+  const transport = Deno.env.get('EMAIL_TRANSPORT') || (Deno.env.get('SMTP_HOST') ? 'smtp' : 'console');
+  switch (transport) {
+    case 'smtp':
+      return createSmtpTransport();
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${transport}"`);
+  }
+};
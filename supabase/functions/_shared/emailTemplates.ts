@@ -0,0 +1,174 @@
+export type EmailTemplate = 'order_confirmation' | 'order_shipped' | 'order_delivered' | 'refund_processed';
+
+export interface EmailOrder {
+  id: string;
+  total_amount: number;
+  shipping_address: string | null;
+  courier_name: string | null;
+  awb_number: string | null;
+  tracking_url: string | null;
+  order_items: { product_name: string; quantity: number; price: number }[];
+}
+
+export interface EmailRefund {
+  amount: number;
+  method: string;
+}
+
+export interface OrderEmailData {
+  order: EmailOrder;
+  refund?: EmailRefund | null;
+  // Order page for account holders, /track-order for guests
+  orderUrl: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  showItems: boolean;
+  showAddress: boolean;
+  action?: { label: string; url: string };
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString('en-IN', { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+const getContent = (template: EmailTemplate, { order, refund, orderUrl }: OrderEmailData): EmailContent => {
+  switch (template) {
+    case 'order_confirmation':
+      return {
+        subject: 'Your Flipmart order is confirmed',
+        heading: 'Thank you for your order',
+        paragraphs: [
+          `We have received your order ${order.id} and will let you know as soon as it ships.`,
+        ],
+        showItems: true,
+        showAddress: true,
+        action: { label: 'View order', url: orderUrl },
+      };
+    case 'order_shipped':
+      return {
+        subject: 'Your Flipmart order has shipped',
+        heading: 'Your order is on its way',
+        paragraphs: [
+          `Order ${order.id} has been handed over to ${order.courier_name ?? 'our courier partner'}.`,
+          ...(order.awb_number ? [`Tracking number (AWB): ${order.awb_number}`] : []),
+        ],
+        showItems: true,
+        showAddress: true,
+        action: order.tracking_url
+          ? { label: 'Track shipment', url: order.tracking_url }
+          : { label: 'View order', url: orderUrl },
+      };
+    case 'order_delivered':
+      return {
+        subject: 'Your Flipmart order was delivered',
+        heading: 'Your order has been delivered',
+        paragraphs: [
+          `Order ${order.id} was delivered. If something is not right, you can request a return or replacement from the order page within 7 days.`,
+        ],
+        showItems: true,
+        showAddress: false,
+        action: { label: 'View order', url: orderUrl },
+      };
+    case 'refund_processed':
+      return {
+        subject: 'Your Flipmart refund has been processed',
+        heading: 'Refund processed',
+        paragraphs: [
+          `We have refunded ${formatAmount(refund?.amount ?? 0)} for order ${order.id}.`,
+          refund?.method === 'cashfree'
+            ? 'It goes back to your original payment method and usually shows up within 5-7 working days.'
+            : 'It has been sent to the UPI account you paid from.',
+        ],
+        showItems: false,
+        showAddress: false,
+        action: { label: 'View order', url: orderUrl },
+      };
+  }
+};
+
+const renderHtml = (content: EmailContent, order: EmailOrder) => {
+  const itemRows = order.order_items
+    .map(
+      (item) => `
+        <tr>
+          <td style="padding:6px 0">${escapeHtml(item.product_name)} &times; ${item.quantity}</td>
+          <td style="padding:6px 0;text-align:right">${formatAmount(item.price * item.quantity)}</td>
+        </tr>`,
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;background:#f1f3f6;font-family:Arial,Helvetica,sans-serif;color:#212121">
+    <table width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff">
+      <tr>
+        <td style="background:#2874f0;color:#ffffff;padding:16px 24px;font-size:20px;font-weight:bold;font-style:italic">Flipmart</td>
+      </tr>
+      <tr>
+        <td style="padding:24px">
+          <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(content.heading)}</h1>
+          ${content.paragraphs.map((paragraph) => `<p style="margin:0 0 12px;line-height:1.5">${escapeHtml(paragraph)}</p>`).join('')}
+          ${content.showItems ? `
+          <table width="100%" cellpadding="0" cellspacing="0" style="margin:16px 0;border-top:1px solid #e0e0e0;font-size:14px">
+            ${itemRows}
+            <tr>
+              <td style="padding:8px 0;border-top:1px solid #e0e0e0;font-weight:bold">Total</td>
+              <td style="padding:8px 0;border-top:1px solid #e0e0e0;font-weight:bold;text-align:right">${formatAmount(order.total_amount)}</td>
+            </tr>
+          </table>` : ''}
+          ${content.showAddress && order.shipping_address ? `
+          <p style="margin:0 0 4px;font-weight:bold;font-size:14px">Delivering to</p>
+          <p style="margin:0 0 16px;font-size:14px;line-height:1.5">${escapeHtml(order.shipping_address).replace(/\n/g, '<br>')}</p>` : ''}
+          ${content.action ? `
+          <a href="${escapeHtml(content.action.url)}" style="display:inline-block;background:#fb641b;color:#ffffff;text-decoration:none;padding:10px 20px;border-radius:2px;font-weight:bold">${escapeHtml(content.action.label)}</a>` : ''}
+        </td>
+      </tr>
+      <tr>
+        <td style="padding:16px 24px;font-size:12px;color:#878787">You are receiving this email because you placed an order on Flipmart.</td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+};
+
+const renderText = (content: EmailContent, order: EmailOrder) =>
+  [
+    content.heading,
+    '',
+    ...content.paragraphs,
+    ...(content.showItems
+      ? [
+          '',
+          ...order.order_items.map((item) => `${item.product_name} x ${item.quantity}: ${formatAmount(item.price * item.quantity)}`),
+          `Total: ${formatAmount(order.total_amount)}`,
+        ]
+      : []),
+    ...(content.showAddress && order.shipping_address ? ['', 'Delivering to:', order.shipping_address] : []),
+    ...(content.action ? ['', `${content.action.label}: ${content.action.url}`] : []),
+  ].join('\n');
+
+export const renderOrderEmail = (template: EmailTemplate, data: OrderEmailData): RenderedEmail => {
+  const content = getContent(template, data);
+  return {
+    subject: content.subject,
+    html: renderHtml(content, data.order),
+    text: renderText(content, data.order),
+  };
+};
@@ -0,0 +1,56 @@
+export type MessageTemplate =
+  | 'order_confirmation'
+  | 'order_shipped'
+  | 'order_out_for_delivery'
+  | 'order_delivered'
+  | 'order_cancelled';
+
+export interface MessageOrder {
+  id: string;
+  total_amount: number;
+  courier_name: string | null;
+  awb_number: string | null;
+  tracking_url: string | null;
+}
+
+export interface RenderedMessage {
+  params: string[];
+  body: string;
+}
+
+// SMS bodies are kept within two 160-character segments
+export const renderOrderMessage = (template: MessageTemplate, order: MessageOrder, orderUrl: string): RenderedMessage => {
+  const shortId = order.id.slice(0, 8).toUpperCase();
+  const amount = `Rs.${Number(order.total_amount).toLocaleString('en-IN')}`;
+
+  switch (template) {
+    case 'order_confirmation':
+      return {
+        params: [shortId, amount, orderUrl],
+        body: `Flipmart: Your order ${shortId} for ${amount} is confirmed. Track it at ${orderUrl}`,
+      };
+    case 'order_shipped': {
+      const courier = order.courier_name ?? 'our courier partner';
+      const tracking = order.tracking_url ?? orderUrl;
+      return {
+        params: [shortId, courier, order.awb_number ?? '', tracking],
+        body: `Flipmart: Order ${shortId} has shipped with ${courier}${order.awb_number ? `, AWB ${order.awb_number}` : ''}. Track: ${tracking}`,
+      };
+    }
+    case 'order_out_for_delivery':
+      return {
+        params: [shortId],
+        body: `Flipmart: Order ${shortId} is out for delivery and will reach you today.`,
+      };
+    case 'order_delivered':
+      return {
+        params: [shortId, orderUrl],
+        body: `Flipmart: Order ${shortId} was delivered. Not happy with it? Request a return within 7 days at ${orderUrl}`,
+      };
+    case 'order_cancelled':
+      return {
+        params: [shortId],
+        body: `Flipmart: Order ${shortId} has been cancelled. Any amount paid online will be refunded to you.`,
+      };
+  }
+};
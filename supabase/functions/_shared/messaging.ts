@@ -0,0 +1,59 @@
+export type MessageChannel = 'sms' | 'whatsapp';
+
+export interface OutboundMessage {
+  channel: MessageChannel;
+  // E.164, e.g. +919876543210
+  to: string;
+  // WhatsApp providers send pre-approved templates by name with positional params; SMS ones use body
+  template: string;
+  params: string[];
+  body: string;
+}
+
+export interface SendResult {
+  providerMessageId: string | null;
+}
+
+// Implemented once per SMS/WhatsApp provider and registered in createMessageProvider
+export interface MessageProvider {
+  name: string;
+  send: (message: OutboundMessage) => Promise<SendResult>;
+}
+
+// Prints messages to the function logs instead of sending them
+export const createConsoleProvider = (): MessageProvider => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`[${message.channel}] to=${message.to} template=${message.template}\n${message.body}`);
+    return { providerMessageId: null };
+  },
+});
+
+// Appends each message as a JSON line, so local runs can be inspected or asserted on afterwards
+export const createFileProvider = (): MessageProvider => {
+  const path = Deno.env.get('MESSAGE_LOG_FILE') || '/tmp/outbound-messages.log';
+  return {
+    name: 'file',
+    send: async (message) => {
+      const providerMessageId = crypto.randomUUID();
+      await Deno.writeTextFile(
+        path,
+        `${JSON.stringify({ id: providerMessageId, sentAt: new Date().toISOString(), ...message })}\n`,
+        { append: true, create: true },
+      );
+      return { providerMessageId };
+    },
+  };
+};
+
+export const createMessageProvider = (): MessageProvider => {
+  const provider = Deno.env.get('MESSAGE_PROVIDER') || 'console';
+  switch (provider) {
+    case 'console':
+      return createConsoleProvider();
+    case 'file':
+      return createFileProvider();
+    default:
+      throw new Error(`Unknown MESSAGE_PROVIDER "${provider}"`);
+  }
+};
@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { corsHeaders, jsonResponse } from "./cors.ts";
+import { isAdmin } from "./auth.ts";
+import { createServiceClient, getRequestUser } from "./checkout.ts";
+
+const BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+// Tries at writing a row's outcome before giving up on it
+const UPDATE_ATTEMPTS = 3;
+
+// The columns every outbox row has; the claim RPC bumps attempts before handing a row out
+export interface OutboxRow {
+  id: string;
+  order_id: string;
+  attempts: number;
+}
+
+export type Delivery =
+  | { status: 'sent'; providerMessageId?: string | null }
+  // Dropped without sending, e.g. the customer opted out after the row was queued
+  | { status: 'skipped' };
+
+// What a channel plugs into the worker: how to send one row, through whichever provider is configured
+export interface OutboxAdapter<T extends OutboxRow> {
+  name: string;
+  deliver: (supabase: SupabaseClient, row: T, siteUrl: string) => Promise<Delivery>;
+  describe: (row: T) => string;
+}
+
+interface OutboxOptions<T extends OutboxRow> {
+  table: string;
+  claimFunction: string;
+  // Store the provider name and message id on the row, for tables that have those columns
+  recordProvider?: boolean;
+  createAdapter: () => OutboxAdapter<T>;
+}
+
+// Customers with an account get a link to their order page, guests one to order tracking
+export const getOrderUrl = (siteUrl: string, order: { id: string; user_id: string | null }) =>
+  order.user_id ? `${siteUrl}/orders/${order.id}` : `${siteUrl}/track-order?order=${order.id}`;
+
+// Serves an edge function that drains one outbox table. Called every minute by a pg_cron job with the
+// service role key; admins can also run it by hand. Failed rows go back to pending for the next run
+// until they have been tried MAX_ATTEMPTS times.
+export const serveOutboxWorker = <T extends OutboxRow>({ table, claimFunction, recordProvider = false, createAdapter }: OutboxOptions<T>) =>
+  serve(async (req) => {
+    // Handle CORS preflight requests
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    try {
+      const supabase = createServiceClient();
+
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+      if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+        const user = await getRequestUser(supabase, req);
+        if (!user || !(await isAdmin(supabase, user.id))) {
+          return jsonResponse({ error: 'Unauthorized' }, 401);
+        }
+      }
+
+      const adapter = createAdapter();
+      const siteUrl = (Deno.env.get('SITE_URL') || 'http://localhost:8080').replace(/\/$/, '');
+      const providerFields = recordProvider ? { provider: adapter.name } : {};
+
+      const { data: rows, error: claimError } = await supabase.rpc(claimFunction, { _limit: BATCH_SIZE });
+      if (claimError) throw claimError;
+
+      // Writes the outcome of a row, retrying a few times. A row that was delivered must not be left in
+      // 'sending', or it is claimed and sent again once its lock expires.
+      const updateRow = async (id: string, fields: Record<string, unknown>) => {
+        for (let attempt = 1; attempt <= UPDATE_ATTEMPTS; attempt += 1) {
+          const { error } = await supabase.from(table).update(fields).eq('id', id);
+          if (!error) return true;
+          console.error(`Failed to update ${table} row ${id} (attempt ${attempt}):`, error.message);
+        }
+        return false;
+      };
+
+      let sent = 0;
+      let skipped = 0;
+      let failed = 0;
+      let unrecorded = 0;
+
+      for (const row of (rows ?? []) as T[]) {
+        let delivery: Delivery;
+        try {
+          delivery = await adapter.deliver(supabase, row, siteUrl);
+        } catch (error: unknown) {
+          const message = error instanceof Error ? error.message : String(error);
+          console.error(`Failed to send ${adapter.describe(row)} ${row.id}:`, message);
+
+          await updateRow(row.id, {
+            status: row.attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+            ...providerFields,
+            last_error: message,
+            locked_at: null,
+          });
+          failed += 1;
+          continue;
+        }
+
+        if (delivery.status === 'skipped') {
+          if (!(await updateRow(row.id, { status: 'skipped', locked_at: null }))) unrecorded += 1;
+          skipped += 1;
+          continue;
+        }
+
+        const recorded = await updateRow(row.id, {
+          status: 'sent',
+          ...providerFields,
+          ...(recordProvider ? { provider_message_id: delivery.providerMessageId ?? null } : {}),
+          sent_at: new Date().toISOString(),
+          last_error: null,
+          locked_at: null,
+        });
+        if (!recorded) {
+          console.error(`${adapter.describe(row)} ${row.id} was sent but could not be marked as sent`);
+          unrecorded += 1;
+        }
+        sent += 1;
+      }
+
+      return jsonResponse({ success: true, provider: adapter.name, sent, skipped, failed, unrecorded });
+    } catch (error: unknown) {
+      console.error('Edge function error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return jsonResponse({ error: errorMessage }, 500);
+    }
+  });
@@ -1,8 +1,165 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.90.1";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { CheckoutSession, createServiceClient, getRequestUser } from "../_shared/checkout.ts";
+import { createUserClient, isAdmin } from "../_shared/auth.ts";
+import {
+  CashfreeCredentials,
+  cashfreeHeaders,
+  createCashfreeRefund,
+  fetchCashfreeOrder,
+  fetchCashfreeRefund,
+  getCashfreeBaseUrl,
+  getCashfreeCredentials,
+  getCashfreeMode,
+  isCashfreeStandIn,
+} from "../_shared/cashfree.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Cashfree refund_status values mapped onto refunds.status
+const REFUND_STATUS_MAP: Record<string, 'pending' | 'processed' | 'cancelled'> = {
+  SUCCESS: 'processed',
+  PENDING: 'pending',
+  ONHOLD: 'pending',
+  CANCELLED: 'cancelled',
+};
+
+const REFUNDABLE_PAYMENT_STATUSES = ['paid', 'cod_fee_paid', 'partially_refunded'];
+
+// Refunds that have not failed or been cancelled count against what is left to refund
+const isActiveRefund = (refund: { status: string }) => refund.status === 'pending' || refund.status === 'processed';
+
+// The Cashfree order behind CASHFREE:<order> and COD:FEE_PAID:CASHFREE:<order> payment ids
+const getGatewayOrderId = (paymentId: string | null) =>
+  paymentId?.match(/^(?:COD:FEE_PAID:)?CASHFREE:(.+)$/)?.[1] ?? null;
+
+// What was actually collected online: the whole order, or just the confirmation charge for COD
+const getPaidAmount = async (supabase: SupabaseClient, order: { id: string; total_amount: number }) => {
+  const { data: session } = await supabase
+    .from('checkout_sessions')
+    .select('amount')
+    .eq('order_id', order.id)
+    .maybeSingle();
+  return Number(session?.amount ?? order.total_amount);
+};
+
+// Keep orders.payment_status in line with the refunds issued so far
+const syncOrderRefundStatus = async (supabase: SupabaseClient, orderId: string) => {
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('id, total_amount, payment_id, payment_status')
+    .eq('id', orderId)
+    .single();
+  if (orderError) throw orderError;
+
+  const { data: refunds, error: refundsError } = await supabase
+    .from('refunds')
+    .select('amount, status')
+    .eq('order_id', orderId);
+  if (refundsError) throw refundsError;
+
+  const refunded = (refunds ?? []).filter(isActiveRefund).reduce((sum, refund) => sum + Number(refund.amount), 0);
+  const paidAmount = await getPaidAmount(supabase, order);
+  const paymentStatus = refunded <= 0
+    ? (order.payment_id?.startsWith('COD:') ? 'cod_fee_paid' : 'paid')
+    : refunded >= paidAmount ? 'refunded' : 'partially_refunded';
+
+  if (paymentStatus !== order.payment_status) {
+    const { error } = await supabase.from('orders').update({ payment_status: paymentStatus }).eq('id', orderId);
+    if (error) throw error;
+  }
+};
+
+interface RefundableOrder {
+  id: string;
+  total_amount: number;
+  payment_id: string | null;
+}
+
+// What is left after the refunds already issued against the order. Only a hint for how much to refund;
+// record_refund enforces the limit.
+const getRefundableAmount = async (supabase: SupabaseClient, order: RefundableOrder) => {
+  const { data: existingRefunds, error } = await supabase
+    .from('refunds')
+    .select('amount, status')
+    .eq('order_id', order.id);
+  if (error) throw error;
+
+  const paidAmount = await getPaidAmount(supabase, order);
+  const alreadyRefunded = (existingRefunds ?? [])
+    .filter(isActiveRefund)
+    .reduce((sum, refund) => sum + Number(refund.amount), 0);
+  return Math.round((paidAmount - alreadyRefunded) * 100) / 100;
+};
+
+// Records a refund and, for gateway payments, asks Cashfree to send it. Scan & Pay payments have no
+// gateway payment to reverse, so their refunds are recorded as manual with the given status.
+const issueRefund = async (
+  supabase: SupabaseClient,
+  credentials: CashfreeCredentials | null,
+  order: RefundableOrder,
+  { amount, reason, createdBy, manualStatus }: {
+    amount: number;
+    reason: string | null;
+    createdBy: string;
+    manualStatus: 'pending' | 'processed';
+  },
+) => {
+  const gatewayOrderId = getGatewayOrderId(order.payment_id);
+  if (gatewayOrderId && !credentials) {
+    console.error('Cashfree credentials not configured');
+    return { ok: false as const, status: 500, error: 'Payment gateway not configured' };
+  }
+
+  // The limit is checked under a lock on the order, so concurrent refunds cannot exceed what was paid
+  const { data: refund, error: insertError } = await supabase.rpc('record_refund', {
+    _order_id: order.id,
+    _amount: amount,
+    _reason: reason,
+    _method: gatewayOrderId ? 'cashfree' : 'manual',
+    _gateway_refund_id: gatewayOrderId ? `refund_${Date.now()}_${order.id.slice(0, 8)}` : null,
+    _status: gatewayOrderId ? 'pending' : manualStatus,
+    _created_by: createdBy,
+  });
+
+  if (insertError) {
+    // check_violation: more than is left to refund
+    if (insertError.code === '23514') {
+      return { ok: false as const, status: 400, error: insertError.message };
+    }
+    throw insertError;
+  }
+
+  if (gatewayOrderId && credentials) {
+    console.log('Creating Cashfree refund:', { gatewayOrderId, refundId: refund.gateway_refund_id, amount });
+
+    const { ok, status, data } = await createCashfreeRefund(credentials, gatewayOrderId, {
+      refund_id: refund.gateway_refund_id,
+      refund_amount: amount,
+      refund_note: reason || undefined,
+    });
+
+    if (!ok) {
+      console.error('Cashfree refund error:', data);
+      await supabase.from('refunds').update({ status: 'failed' }).eq('id', refund.id);
+      return { ok: false as const, status, error: data.message || 'Failed to create refund', details: data };
+    }
+
+    const refundStatus = REFUND_STATUS_MAP[data.refund_status] ?? 'pending';
+    const { error: updateError } = await supabase
+      .from('refunds')
+      .update({
+        cf_refund_id: data.cf_refund_id?.toString() ?? null,
+        status: refundStatus,
+        processed_at: refundStatus === 'processed' ? new Date().toISOString() : null,
+      })
+      .eq('id', refund.id);
+    if (updateError) throw updateError;
+    refund.status = refundStatus;
+  }
+
+  await syncOrderRefundStatus(supabase, order.id);
+
+  return { ok: true as const, refund };
 };
 
 serve(async (req) => {
@@ -12,51 +169,261 @@ serve(async (req) => {
   }
 
   try {
-    const { action, orderId, orderAmount, customerName, customerEmail, customerPhone, returnUrl } = await req.json();
+    const {
+      action,
+      orderId,
+      checkoutSessionId,
+      customerName,
+      customerEmail,
+      customerPhone,
+      returnUrl,
+      amount,
+      reason,
+      refundId,
+    } = await req.json();
     
-    const appId = Deno.env.get('CASHFREE_APP_ID');
-    const secretKey = Deno.env.get('CASHFREE_SECRET_KEY');
+    const credentials = getCashfreeCredentials();
+    const mode = getCashfreeMode();
+
+    // Lets the storefront and admin panel follow the server-side mode
+    if (action === 'get_config') {
+      return jsonResponse({ success: true, mode, configured: !!credentials, standIn: isCashfreeStandIn() });
+    }
+
+    // Admin only. Scan & Pay orders have no gateway payment to reverse, so their refunds are recorded as
+    // manual and treated as processed once the admin has sent the money back.
+    if (action === 'create_refund') {
+      const supabase = createServiceClient();
+      const user = await getRequestUser(supabase, req);
+      if (!user || !(await isAdmin(supabase, user.id))) {
+        return jsonResponse({ error: 'Not authorized' }, 403);
+      }
+
+      const refundAmount = Math.round(Number(amount) * 100) / 100;
+      if (!(refundAmount > 0)) {
+        return jsonResponse({ error: 'Enter a valid refund amount' }, 400);
+      }
+
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('id, total_amount, payment_id, payment_status')
+        .eq('id', orderId)
+        .maybeSingle();
+
+      if (orderError) throw orderError;
+      if (!order) {
+        return jsonResponse({ error: 'Order not found' }, 404);
+      }
+      if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+        return jsonResponse({ error: 'Only paid orders can be refunded' }, 409);
+      }
+
+      // record_refund refuses amounts above what is left to refund
+      const result = await issueRefund(supabase, credentials, order, {
+        amount: refundAmount,
+        reason: reason || null,
+        createdBy: user.id,
+        // The admin sends manual refunds before recording them
+        manualStatus: 'processed',
+      });
+      if (!result.ok) {
+        return jsonResponse({ error: result.error, details: result.details }, result.status);
+      }
+      const refund = result.refund;
+
+      return jsonResponse({ success: true, refundId: refund.id, status: refund.status });
+    }
+
+    // Customers cancel their own orders before they ship. The transition runs as the customer through the
+    // cancel_order RPC, then whatever was collected online (the order total, or the COD confirmation charge)
+    // is refunded in full. A failed refund does not undo the cancellation; admins can retry it.
+    if (action === 'cancel_order') {
+      const supabase = createServiceClient();
+      const user = await getRequestUser(supabase, req);
+      if (!user) {
+        return jsonResponse({ error: 'Please log in to cancel an order' }, 403);
+      }
+
+      const { error: cancelError } = await createUserClient(req).rpc('cancel_order', {
+        _order_id: orderId,
+        _reason: reason ?? '',
+      });
+      if (cancelError) {
+        return jsonResponse({ error: cancelError.message }, cancelError.code === 'P0002' ? 404 : 409);
+      }
+
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('id, total_amount, payment_id, payment_status')
+        .eq('id', orderId)
+        .single();
+      if (orderError) throw orderError;
+
+      const refundable = REFUNDABLE_PAYMENT_STATUSES.includes(order.payment_status)
+        ? await getRefundableAmount(supabase, order)
+        : 0;
+      if (refundable <= 0) {
+        return jsonResponse({ success: true, refund: null });
+      }
+
+      // Scan & Pay money is sent back by the merchant, so those refunds wait for an admin to complete them
+      const result = await issueRefund(supabase, credentials, order, {
+        amount: refundable,
+        reason: `Order cancelled: ${reason}`,
+        createdBy: user.id,
+        manualStatus: 'pending',
+      });
+      if (!result.ok) {
+        console.error('Refund after cancellation failed:', { orderId, error: result.error });
+        return jsonResponse({ success: true, refund: null, refundError: result.error });
+      }
+
+      return jsonResponse({
+        success: true,
+        refund: { id: result.refund.id, amount: refundable, status: result.refund.status, method: result.refund.method },
+      });
+    }
+
+    // Admin only. Marks a manual refund as sent once the money has gone back to the customer.
+    if (action === 'complete_refund') {
+      const supabase = createServiceClient();
+      const user = await getRequestUser(supabase, req);
+      if (!user || !(await isAdmin(supabase, user.id))) {
+        return jsonResponse({ error: 'Not authorized' }, 403);
+      }
+
+      const { data: refund, error: updateError } = await supabase
+        .from('refunds')
+        .update({ status: 'processed', processed_at: new Date().toISOString() })
+        .eq('id', refundId)
+        .eq('method', 'manual')
+        .eq('status', 'pending')
+        .select('id, order_id, status')
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      if (!refund) {
+        return jsonResponse({ error: 'No pending manual refund found' }, 404);
+      }
+
+      await syncOrderRefundStatus(supabase, refund.order_id);
+
+      return jsonResponse({ success: true, refundId: refund.id, status: refund.status });
+    }
+
+    // Admins and the customer who owns the order can poll a refund; pending gateway refunds are
+    // refreshed from Cashfree on the way
+    if (action === 'get_refund_status') {
+      const supabase = createServiceClient();
+      const user = await getRequestUser(supabase, req);
+      if (!user) {
+        return jsonResponse({ error: 'Not authorized' }, 403);
+      }
+
+      const { data: refund, error: refundError } = await supabase
+        .from('refunds')
+        .select('*, orders(user_id, payment_id)')
+        .eq('id', refundId)
+        .maybeSingle();
+
+      if (refundError) throw refundError;
+      if (!refund || (refund.orders?.user_id !== user.id && !(await isAdmin(supabase, user.id)))) {
+        return jsonResponse({ error: 'Refund not found' }, 404);
+      }
+
+      const gatewayOrderId = getGatewayOrderId(refund.orders?.payment_id ?? null);
+      if (refund.method === 'cashfree' && refund.status === 'pending' && gatewayOrderId && credentials) {
+        const { ok, data } = await fetchCashfreeRefund(credentials, gatewayOrderId, refund.gateway_refund_id);
+
+        const refundStatus = ok ? REFUND_STATUS_MAP[data.refund_status] : undefined;
+        if (refundStatus && refundStatus !== refund.status) {
+          const processedAt = refundStatus === 'processed' ? (data.processed_at ?? new Date().toISOString()) : null;
+          const { error: updateError } = await supabase
+            .from('refunds')
+            .update({ status: refundStatus, processed_at: processedAt })
+            .eq('id', refund.id);
+          if (updateError) throw updateError;
+
+          refund.status = refundStatus;
+          refund.processed_at = processedAt;
+          await syncOrderRefundStatus(supabase, refund.order_id);
+        }
+      }
+
+      return jsonResponse({
+        success: true,
+        refundId: refund.id,
+        status: refund.status,
+        amount: Number(refund.amount),
+        processedAt: refund.processed_at,
+      });
+    }
     
-    if (!appId || !secretKey) {
+    if (!credentials) {
       console.error('Cashfree credentials not configured');
-      return new Response(
-        JSON.stringify({ error: 'Payment gateway not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return jsonResponse({ error: 'Payment gateway not configured' }, 500);
     }
 
-    // Use production URL - change to sandbox for testing
-    const baseUrl = 'https://api.cashfree.com/pg';
-    // For sandbox testing, use: 'https://sandbox.cashfree.com/pg'
-
     if (action === 'create_order') {
-      console.log('Creating Cashfree order:', { orderId, orderAmount, customerName, customerEmail, customerPhone });
+      // The amount always comes from the checkout session priced on the server
+      const supabase = createServiceClient();
+      const { data: session, error: sessionError } = await supabase
+        .from('checkout_sessions')
+        .select('*')
+        .eq('id', checkoutSessionId)
+        .maybeSingle<CheckoutSession>();
+
+      if (sessionError) throw sessionError;
+      if (!session || session.status !== 'pending') {
+        return jsonResponse({ error: 'Checkout session not found' }, 404);
+      }
+
+      const checkoutResponse = (order: Record<string, unknown>) => jsonResponse({
+        success: true,
+        orderId: order.order_id,
+        sessionId: order.payment_session_id,
+        orderToken: order.order_token,
+        cfOrderId: order.cf_order_id,
+        mode,
+        // The stand-in serves its own checkout page instead of the Cashfree JS SDK
+        checkoutUrl: isCashfreeStandIn() ? order.payment_link : undefined,
+      });
+
+      // A retry or second click pays on the order already issued while Cashfree still accepts payments on it
+      if (session.gateway_order_id) {
+        const existing = await fetchCashfreeOrder(credentials, session.gateway_order_id);
+        if (existing.ok && existing.data.order_status === 'ACTIVE' && Number(existing.data.order_amount) === Number(session.amount)) {
+          console.log('Reusing Cashfree order:', { gatewayOrderId: session.gateway_order_id, checkoutSessionId });
+          return checkoutResponse(existing.data);
+        }
+      }
+
+      const gatewayOrderId = `order_${Date.now()}_${session.id.slice(0, 8)}`;
+      console.log('Creating Cashfree order:', { mode, gatewayOrderId, checkoutSessionId, amount: session.amount });
       
       const orderPayload = {
-        order_id: orderId,
-        order_amount: orderAmount,
+        order_id: gatewayOrderId,
+        order_amount: Number(session.amount),
         order_currency: 'INR',
         customer_details: {
           customer_id: `cust_${Date.now()}`,
-          customer_name: customerName || 'Customer',
-          customer_email: customerEmail || 'customer@example.com',
-          customer_phone: customerPhone || '9999999999',
+          customer_name: customerName || session.address.fullName || 'Customer',
+          customer_email: customerEmail || session.guest_email || 'customer@example.com',
+          customer_phone: customerPhone || session.address.phone || '9999999999',
         },
         order_meta: {
-          return_url: returnUrl || `${req.headers.get('origin')}/checkout?order_id=${orderId}&status={order_status}`,
-          notify_url: null,
+          return_url: returnUrl || `${req.headers.get('origin')}/checkout?cf_order_id={order_id}&status={order_status}`,
+          notify_url: `${Deno.env.get('SUPABASE_URL')}/functions/v1/cashfree-webhook`,
         },
       };
 
       console.log('Order payload:', JSON.stringify(orderPayload));
 
-      const response = await fetch(`${baseUrl}/orders`, {
+      const response = await fetch(`${getCashfreeBaseUrl()}/orders`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'x-api-version': '2023-08-01',
-          'x-client-id': appId,
-          'x-client-secret': secretKey,
+          ...cashfreeHeaders(credentials),
         },
         body: JSON.stringify(orderPayload),
       });
@@ -66,69 +433,50 @@ serve(async (req) => {
 
       if (!response.ok) {
         console.error('Cashfree error:', data);
-        return new Response(
-          JSON.stringify({ error: data.message || 'Failed to create payment order', details: data }),
-          { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      return new Response(
-        JSON.stringify({ 
-          success: true, 
-          orderId: data.order_id,
-          sessionId: data.payment_session_id,
-          orderToken: data.order_token,
-          cfOrderId: data.cf_order_id
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+        return jsonResponse({ error: data.message || 'Failed to create payment order', details: data }, response.status);
+      }
+
+      // The return handler and webhook find the session again through any gateway order issued for it
+      const { error: linkError } = await supabase
+        .from('checkout_gateway_orders')
+        .insert({ gateway_order_id: data.order_id, checkout_session_id: session.id });
+
+      if (linkError) throw linkError;
+
+      const { error: latestError } = await supabase
+        .from('checkout_sessions')
+        .update({ gateway_order_id: data.order_id })
+        .eq('id', session.id);
+
+      if (latestError) throw latestError;
+
+      return checkoutResponse(data);
     }
 
     if (action === 'verify_payment') {
       console.log('Verifying payment for order:', orderId);
       
-      const response = await fetch(`${baseUrl}/orders/${orderId}`, {
-        method: 'GET',
-        headers: {
-          'x-api-version': '2023-08-01',
-          'x-client-id': appId,
-          'x-client-secret': secretKey,
-        },
-      });
-
-      const data = await response.json();
+      const { ok, status, data } = await fetchCashfreeOrder(credentials, orderId);
       console.log('Payment verification response:', JSON.stringify(data));
 
-      if (!response.ok) {
-        return new Response(
-          JSON.stringify({ error: 'Failed to verify payment', details: data }),
-          { status: response.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-
-      return new Response(
-        JSON.stringify({ 
-          success: true,
-          orderStatus: data.order_status,
-          paymentStatus: data.order_status === 'PAID' ? 'paid' : 'pending',
-          cfOrderId: data.cf_order_id,
-          orderAmount: data.order_amount
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      if (!ok) {
+        return jsonResponse({ error: 'Failed to verify payment', details: data }, status);
+      }
+
+      return jsonResponse({ 
+        success: true,
+        orderStatus: data.order_status,
+        paymentStatus: data.order_status === 'PAID' ? 'paid' : 'pending',
+        cfOrderId: data.cf_order_id,
+        orderAmount: data.order_amount
+      });
     }
 
-    return new Response(
-      JSON.stringify({ error: 'Invalid action' }),
-      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: 'Invalid action' }, 400);
 
   } catch (error: unknown) {
     console.error('Edge function error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return jsonResponse({ error: errorMessage }, 500);
   }
 });
@@ -0,0 +1,142 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { jsonResponse } from "../_shared/cors.ts";
+import { verifyWebhookSignature } from "../_shared/cashfree.ts";
+import { createServiceClient, findSessionByGatewayOrder, placeOrderFromSession } from "../_shared/checkout.ts";
+
+// Cashfree payment.payment_status values mapped onto orders.payment_status
+const PAYMENT_STATUS_MAP: Record<string, 'paid' | 'failed'> = {
+  SUCCESS: 'paid',
+  FAILED: 'failed',
+  USER_DROPPED: 'failed',
+};
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const secret = Deno.env.get('CASHFREE_WEBHOOK_SECRET') ?? Deno.env.get('CASHFREE_SECRET_KEY');
+    if (!secret) {
+      console.error('Cashfree webhook secret not configured');
+      return jsonResponse({ error: 'Payment gateway not configured' }, 500);
+    }
+
+    // The signature covers the exact bytes Cashfree sent, so read the body as text before parsing
+    const rawBody = await req.text();
+    const isValid = await verifyWebhookSignature(
+      rawBody,
+      req.headers.get('x-webhook-timestamp'),
+      req.headers.get('x-webhook-signature'),
+      secret,
+    );
+
+    if (!isValid) {
+      console.error('Rejected Cashfree webhook with invalid signature');
+      return jsonResponse({ error: 'Invalid signature' }, 401);
+    }
+
+    const event = JSON.parse(rawBody);
+    const gatewayOrderId: string | undefined = event.data?.order?.order_id;
+    const gatewayPaymentId = event.data?.payment?.cf_payment_id?.toString() ?? null;
+    const gatewayStatus: string | undefined = event.data?.payment?.payment_status;
+
+    if (!event.type || !gatewayOrderId) {
+      return jsonResponse({ error: 'Malformed webhook payload' }, 400);
+    }
+
+    const supabase = createServiceClient();
+
+    // Cashfree retries deliveries, so the same event can arrive more than once
+    const eventKey = `${event.type}:${gatewayOrderId}:${gatewayPaymentId ?? ''}`;
+    const { data: inserted, error: recordError } = await supabase
+      .from('payment_events')
+      .upsert({
+        provider: 'cashfree',
+        event_key: eventKey,
+        event_type: event.type,
+        gateway_order_id: gatewayOrderId,
+        gateway_payment_id: gatewayPaymentId,
+        payment_status: gatewayStatus ?? null,
+        payload: event,
+      }, { onConflict: 'event_key', ignoreDuplicates: true })
+      .select('id');
+
+    if (recordError) throw recordError;
+
+    let eventId = inserted?.[0]?.id as string | undefined;
+    if (!eventId) {
+      // Already recorded. Only skip it once it was fully processed: a delivery that failed part way
+      // (say, while placing the order) is retried by Cashfree and has to run again.
+      const { data: existing, error: existingError } = await supabase
+        .from('payment_events')
+        .select('id, processed_at')
+        .eq('event_key', eventKey)
+        .single();
+      if (existingError) throw existingError;
+
+      if (existing.processed_at) {
+        console.log('Duplicate Cashfree webhook ignored:', eventKey);
+        return jsonResponse({ success: true, duplicate: true });
+      }
+      eventId = existing.id;
+    }
+
+    const paymentStatus = gatewayStatus ? PAYMENT_STATUS_MAP[gatewayStatus] : undefined;
+    if (paymentStatus) {
+      const session = await findSessionByGatewayOrder(supabase, gatewayOrderId);
+
+      if (paymentStatus === 'paid') {
+        // The shopper may never return from the gateway; the pending checkout session is enough to place the order
+        const paidAmount = Number(event.data?.payment?.payment_amount ?? 0);
+        if (session?.status === 'pending' && paidAmount >= Number(session.amount)) {
+          const orderId = await placeOrderFromSession(supabase, session, gatewayOrderId);
+          console.log('Order placed from webhook:', { orderId, checkoutSessionId: session.id });
+        }
+
+        const { error: paidError } = await supabase
+          .from('orders')
+          .update({ payment_status: 'paid' })
+          .eq('payment_id', `CASHFREE:${gatewayOrderId}`)
+          .neq('payment_status', 'paid');
+        if (paidError) throw paidError;
+
+        const { error: codError } = await supabase
+          .from('orders')
+          .update({ payment_status: 'cod_fee_paid' })
+          .eq('payment_id', `COD:FEE_PAID:CASHFREE:${gatewayOrderId}`)
+          .neq('payment_status', 'cod_fee_paid');
+        if (codError) throw codError;
+      } else if (session?.status === 'pending') {
+        // Orders only exist once a payment succeeds, so a failed attempt is recorded on the session. Its
+        // stock goes back on sale; paying again from the checkout page reserves it afresh.
+        const { error: failedError } = await supabase
+          .from('checkout_sessions')
+          .update({ payment_failed_at: new Date().toISOString() })
+          .eq('id', session.id);
+        if (failedError) throw failedError;
+
+        const { error: releaseError } = await supabase
+          .from('stock_reservations')
+          .delete()
+          .eq('checkout_session_id', session.id);
+        if (releaseError) throw releaseError;
+      }
+    }
+
+    const { error: processedError } = await supabase
+      .from('payment_events')
+      .update({ processed_at: new Date().toISOString() })
+      .eq('id', eventId);
+    if (processedError) throw processedError;
+
+    console.log('Cashfree webhook processed:', { eventKey, paymentStatus });
+
+    return jsonResponse({ success: true });
+
+  } catch (error: unknown) {
+    console.error('Webhook error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
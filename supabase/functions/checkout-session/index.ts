@@ -0,0 +1,234 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  CheckoutAddress,
+  createServiceClient,
+  FeePaymentMethod,
+  getRequestUser,
+  getReservationExpiry,
+  isPaidViaCashfree,
+  isStockShortage,
+  PaymentMethod,
+  SCAN_PAYMENT_WINDOW_MINUTES,
+} from "../_shared/checkout.ts";
+
+const COD_CHARGE = 59;
+
+interface GuestItemInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+interface OrderLine {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { renewSessionId, cartItemIds, guestItems, address, paymentMethod, feePaymentMethod } = await req.json() as {
+      // Extends the stock reservation of a session the shopper is still paying for
+      renewSessionId?: string;
+      cartItemIds?: string[];
+      guestItems?: GuestItemInput[];
+      address?: CheckoutAddress;
+      paymentMethod?: PaymentMethod;
+      feePaymentMethod?: FeePaymentMethod;
+    };
+
+    const supabase = createServiceClient();
+    const user = await getRequestUser(supabase, req);
+
+    if (renewSessionId) {
+      const { data: session, error: sessionError } = await supabase
+        .from('checkout_sessions')
+        .select('id, user_id, status, expires_at')
+        .eq('id', renewSessionId)
+        .maybeSingle();
+
+      if (sessionError) throw sessionError;
+      if (!session || session.status !== 'pending' || session.user_id !== (user?.id ?? null)) {
+        return jsonResponse({ error: 'Checkout session not found' }, 404);
+      }
+
+      // The reservation is upserted, so running it again moves its expiry and re-takes stock that lapsed
+      const { error: reserveError } = await supabase.rpc('reserve_checkout_stock', {
+        _checkout_session_id: session.id,
+        _expires_at: getReservationExpiry(session.expires_at),
+      });
+
+      if (reserveError) {
+        if (isStockShortage(reserveError)) {
+          return jsonResponse({ error: reserveError.message }, 409);
+        }
+        throw reserveError;
+      }
+
+      return jsonResponse({ success: true, checkoutSessionId: session.id, expiresAt: session.expires_at });
+    }
+
+    if (!['cashfree', 'scan', 'cod'].includes(paymentMethod ?? '')) {
+      return jsonResponse({ error: 'Invalid payment details' }, 400);
+    }
+    if (paymentMethod === 'cod' && !['cashfree', 'scan'].includes(feePaymentMethod ?? '')) {
+      return jsonResponse({ error: 'Invalid payment details' }, 400);
+    }
+
+    if (!address?.fullName || !address.phone || !address.houseNo || !address.city || !address.pincode) {
+      return jsonResponse({ error: 'Please fill all required fields' }, 400);
+    }
+    if (!user && !address.email) {
+      return jsonResponse({ error: 'Please enter your email address' }, 400);
+    }
+
+    // Resolve cart lines: signed-in users reference their cart_items rows, guests send their local cart
+    let lines: OrderLine[];
+    if (user) {
+      if (!Array.isArray(cartItemIds) || cartItemIds.length === 0) {
+        return jsonResponse({ error: 'Your cart is empty' }, 400);
+      }
+
+      const { data: cartItems, error: cartError } = await supabase
+        .from('cart_items')
+        .select('product_id, variant_id, quantity')
+        .eq('user_id', user.id)
+        .in('id', cartItemIds);
+
+      if (cartError) throw cartError;
+      if (!cartItems || cartItems.length !== cartItemIds.length) {
+        return jsonResponse({ error: 'Your cart has changed. Please review it and try again.' }, 409);
+      }
+
+      lines = cartItems.map((item) => ({ productId: item.product_id, variantId: item.variant_id, quantity: item.quantity }));
+    } else {
+      lines = (Array.isArray(guestItems) ? guestItems : [])
+        .filter((item) => typeof item?.productId === 'string' && Number.isInteger(item.quantity) && item.quantity > 0)
+        .map((item) => ({
+          productId: item.productId,
+          variantId: typeof item.variantId === 'string' ? item.variantId : null,
+          quantity: item.quantity,
+        }));
+      if (lines.length === 0 || lines.length !== guestItems?.length) {
+        return jsonResponse({ error: 'Your cart is empty' }, 400);
+      }
+    }
+
+    // Prices always come from the products and product_variants tables, never from the client
+    const productIds = [...new Set(lines.map((line) => line.productId))];
+    const { data: products, error: productsError } = await supabase
+      .from('products')
+      .select('id, name, selling_price, variant_axes')
+      .eq('is_active', true)
+      .in('id', productIds);
+
+    if (productsError) throw productsError;
+    if (!products || products.length !== productIds.length) {
+      return jsonResponse({ error: 'Some items in your cart are no longer available' }, 409);
+    }
+
+    const variantIds = [...new Set(lines.flatMap((line) => (line.variantId ? [line.variantId] : [])))];
+    const { data: variants, error: variantsError } = variantIds.length > 0
+      ? await supabase
+        .from('product_variants')
+        .select('id, product_id, options, selling_price')
+        .eq('is_active', true)
+        .in('id', variantIds)
+      : { data: [], error: null };
+
+    if (variantsError) throw variantsError;
+
+    // A product with option axes can only be bought as one of its variants
+    const unavailable = lines.some((line) => {
+      const product = products.find((p) => p.id === line.productId)!;
+      const variant = variants?.find((v) => v.id === line.variantId);
+      return line.variantId
+        ? !variant || variant.product_id !== product.id
+        : product.variant_axes.length > 0;
+    });
+    if (unavailable) {
+      return jsonResponse({ error: 'Some items in your cart are no longer available' }, 409);
+    }
+
+    const items = lines.map((line) => {
+      const product = products.find((p) => p.id === line.productId)!;
+      const variant = variants?.find((v) => v.id === line.variantId);
+      const optionValues = variant
+        ? product.variant_axes.map((axis: string) => (variant.options as Record<string, string>)[axis]).filter(Boolean)
+        : [];
+      return {
+        product_id: product.id,
+        variant_id: variant?.id ?? null,
+        product_name: optionValues.length > 0 ? `${product.name} (${optionValues.join(', ')})` : product.name,
+        quantity: line.quantity,
+        price: Number(variant?.selling_price ?? product.selling_price),
+      };
+    });
+
+    const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    const codCharge = paymentMethod === 'cod' ? COD_CHARGE : 0;
+    const totalAmount = subtotal + codCharge;
+    // COD orders only collect the confirmation charge online
+    const amount = paymentMethod === 'cod' ? codCharge : totalAmount;
+    const expiresAt = isPaidViaCashfree({ payment_method: paymentMethod as PaymentMethod, fee_payment_method: feePaymentMethod ?? null })
+      ? null
+      : new Date(Date.now() + SCAN_PAYMENT_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+    const { data: session, error: sessionError } = await supabase
+      .from('checkout_sessions')
+      .insert({
+        user_id: user?.id ?? null,
+        guest_email: user ? null : address.email,
+        guest_phone: user ? null : address.phone,
+        items,
+        address,
+        payment_method: paymentMethod,
+        fee_payment_method: paymentMethod === 'cod' ? feePaymentMethod : null,
+        subtotal,
+        cod_charge: codCharge,
+        amount,
+        total_amount: totalAmount,
+        expires_at: expiresAt,
+      })
+      .select('id')
+      .single();
+
+    if (sessionError) throw sessionError;
+
+    const { error: reserveError } = await supabase.rpc('reserve_checkout_stock', {
+      _checkout_session_id: session.id,
+      _expires_at: getReservationExpiry(expiresAt),
+    });
+
+    if (reserveError) {
+      await supabase.from('checkout_sessions').delete().eq('id', session.id);
+      if (isStockShortage(reserveError)) {
+        return jsonResponse({ error: reserveError.message }, 409);
+      }
+      throw reserveError;
+    }
+
+    console.log('Checkout session created:', { id: session.id, paymentMethod, amount });
+
+    return jsonResponse({
+      success: true,
+      checkoutSessionId: session.id,
+      subtotal,
+      codCharge,
+      totalAmount,
+      amount,
+      expiresAt,
+    });
+
+  } catch (error: unknown) {
+    console.error('Edge function error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
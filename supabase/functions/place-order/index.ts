@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { fetchCashfreeOrder, getCashfreeCredentials } from "../_shared/cashfree.ts";
+import {
+  CheckoutSession,
+  createServiceClient,
+  findSessionByGatewayOrder,
+  flagUtrReuse,
+  getRequestUser,
+  isCheckoutExpired,
+  isPaidViaCashfree,
+  isUtrConflict,
+  placeOrderFromSession,
+  UTR_PATTERN,
+} from "../_shared/checkout.ts";
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { checkoutSessionId, gatewayOrderId, paymentReference } = await req.json() as {
+      checkoutSessionId?: string;
+      gatewayOrderId?: string;
+      paymentReference?: string;
+    };
+
+    const supabase = createServiceClient();
+    const user = await getRequestUser(supabase, req);
+
+    // After a gateway redirect the browser only knows the Cashfree order id, which identifies the session
+    let session: CheckoutSession | null;
+    if (gatewayOrderId) {
+      session = await findSessionByGatewayOrder(supabase, gatewayOrderId);
+    } else if (checkoutSessionId) {
+      const { data, error: sessionError } = await supabase
+        .from('checkout_sessions')
+        .select('*')
+        .eq('id', checkoutSessionId)
+        .maybeSingle<CheckoutSession>();
+      if (sessionError) throw sessionError;
+      session = data;
+    } else {
+      return jsonResponse({ error: 'Missing checkout session' }, 400);
+    }
+
+    if (!session || session.user_id !== (user?.id ?? null)) {
+      return jsonResponse({ error: 'Checkout session not found' }, 404);
+    }
+
+    // A refreshed return page or retried request gets the order that was already placed
+    if (session.status === 'completed' && session.order_id) {
+      console.log('Returning existing order for session:', session.id);
+      return jsonResponse({
+        success: true,
+        orderId: session.order_id,
+        totalAmount: Number(session.total_amount),
+        existing: true,
+      });
+    }
+
+    const paidViaCashfree = isPaidViaCashfree(session);
+    // The Cashfree order the shopper actually paid on, which need not be the session's latest
+    const reference = paidViaCashfree ? (gatewayOrderId ?? session.gateway_order_id) : String(paymentReference ?? '').trim();
+    if (!reference) {
+      return jsonResponse({ error: 'Invalid payment details' }, 400);
+    }
+
+    // Online payments are confirmed with Cashfree before the order is written
+    if (paidViaCashfree) {
+      const credentials = getCashfreeCredentials();
+      if (!credentials) {
+        console.error('Cashfree credentials not configured');
+        return jsonResponse({ error: 'Payment gateway not configured' }, 500);
+      }
+
+      const { ok, data } = await fetchCashfreeOrder(credentials, reference);
+
+      if (!ok || data.order_status !== 'PAID' || Number(data.order_amount) < Number(session.amount)) {
+        console.error('Cashfree payment mismatch:', { reference, expectedAmount: session.amount, data });
+        return jsonResponse({ error: 'Payment verification failed' }, 402);
+      }
+    }
+
+    if (!paidViaCashfree && isCheckoutExpired(session)) {
+      return jsonResponse({ error: 'The payment window has expired. Please start the payment again.' }, 410);
+    }
+
+    // A UTR pays for exactly one order; reuse is refused and flagged for review
+    if (!paidViaCashfree) {
+      if (!UTR_PATTERN.test(reference)) {
+        return jsonResponse({ error: 'Please enter the 12-digit UTR number of your payment' }, 400);
+      }
+
+      const { data: existingOrder, error: existingError } = await supabase
+        .from('orders')
+        .select('id, idempotency_key')
+        .eq('utr', reference)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+      if (existingOrder && existingOrder.idempotency_key !== `checkout:${session.id}`) {
+        await flagUtrReuse(supabase, session, reference, existingOrder.id);
+        return jsonResponse({ error: 'This UTR has already been used for another order' }, 409);
+      }
+    }
+
+    let orderId: string;
+    try {
+      orderId = await placeOrderFromSession(supabase, session, reference);
+    } catch (error: unknown) {
+      if (!isUtrConflict(error)) throw error;
+      await flagUtrReuse(supabase, session, reference, null);
+      return jsonResponse({ error: 'This UTR has already been used for another order' }, 409);
+    }
+
+    console.log('Order placed:', { orderId, checkoutSessionId: session.id, totalAmount: session.total_amount });
+
+    return jsonResponse({
+      success: true,
+      orderId,
+      totalAmount: Number(session.total_amount),
+    });
+
+  } catch (error: unknown) {
+    console.error('Edge function error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
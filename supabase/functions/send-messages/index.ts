@@ -0,0 +1,54 @@
+import { createMessageProvider, MessageChannel } from "../_shared/messaging.ts";
+import { MessageOrder, MessageTemplate, renderOrderMessage } from "../_shared/messageTemplates.ts";
+import { getOrderUrl, OutboxRow, serveOutboxWorker } from "../_shared/outbox.ts";
+
+interface QueuedMessage extends OutboxRow {
+  channel: MessageChannel;
+  template: MessageTemplate;
+  recipient: string;
+}
+
+// Drains the outbound_messages queue through the configured SMS/WhatsApp provider
+serveOutboxWorker<QueuedMessage>({
+  table: 'outbound_messages',
+  claimFunction: 'claim_outbound_messages',
+  recordProvider: true,
+  createAdapter: () => {
+    const provider = createMessageProvider();
+
+    return {
+      name: provider.name,
+      describe: (message) => `${message.channel} ${message.template} message`,
+      deliver: async (supabase, message, siteUrl) => {
+        const { data: order, error: orderError } = await supabase
+          .from('orders')
+          .select('id, user_id, total_amount, courier_name, awb_number, tracking_url')
+          .eq('id', message.order_id)
+          .single();
+        if (orderError) throw orderError;
+
+        // The customer may have opted out since the message was queued
+        if (order.user_id) {
+          const { data: profile } = await supabase
+            .from('profiles')
+            .select('sms_opt_out, whatsapp_opt_out')
+            .eq('user_id', order.user_id)
+            .maybeSingle();
+          if (message.channel === 'sms' ? profile?.sms_opt_out : profile?.whatsapp_opt_out) {
+            return { status: 'skipped' };
+          }
+        }
+
+        const rendered = renderOrderMessage(message.template, order as MessageOrder, getOrderUrl(siteUrl, order));
+
+        const result = await provider.send({
+          channel: message.channel,
+          to: message.recipient,
+          template: message.template,
+          ...rendered,
+        });
+        return { status: 'sent', providerMessageId: result.providerMessageId };
+      },
+    };
+  },
+});
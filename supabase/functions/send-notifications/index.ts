@@ -0,0 +1,51 @@
+import { createEmailTransport } from "../_shared/email.ts";
+import { EmailOrder, EmailRefund, EmailTemplate, renderOrderEmail } from "../_shared/emailTemplates.ts";
+import { getOrderUrl, OutboxRow, serveOutboxWorker } from "../_shared/outbox.ts";
+
+interface EmailNotification extends OutboxRow {
+  refund_id: string | null;
+  template: EmailTemplate;
+  recipient: string;
+}
+
+// Drains the email_notifications outbox through the configured email transport
+serveOutboxWorker<EmailNotification>({
+  table: 'email_notifications',
+  claimFunction: 'claim_email_notifications',
+  createAdapter: () => {
+    const transport = createEmailTransport();
+
+    return {
+      name: transport.name,
+      describe: (notification) => `${notification.template} email`,
+      deliver: async (supabase, notification, siteUrl) => {
+        const { data: order, error: orderError } = await supabase
+          .from('orders')
+          .select('id, user_id, total_amount, shipping_address, courier_name, awb_number, tracking_url, order_items(product_name, quantity, price)')
+          .eq('id', notification.order_id)
+          .single();
+        if (orderError) throw orderError;
+
+        let refund: EmailRefund | null = null;
+        if (notification.refund_id) {
+          const { data, error: refundError } = await supabase
+            .from('refunds')
+            .select('amount, method')
+            .eq('id', notification.refund_id)
+            .single();
+          if (refundError) throw refundError;
+          refund = data;
+        }
+
+        const email = renderOrderEmail(notification.template, {
+          order: order as EmailOrder,
+          refund,
+          orderUrl: getOrderUrl(siteUrl, order),
+        });
+
+        await transport.send({ to: notification.recipient, ...email });
+        return { status: 'sent' };
+      },
+    };
+  },
+});
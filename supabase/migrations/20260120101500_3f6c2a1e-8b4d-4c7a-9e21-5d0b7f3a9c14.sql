@@ -0,0 +1,46 @@
+-- Orders are now written only by the place-order edge function, which prices items server-side
+DROP POLICY IF EXISTS "Users can create orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can insert order items" ON public.order_items;
+
+-- Insert an order and its items atomically
+CREATE OR REPLACE FUNCTION public.place_order(_order jsonb, _items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order_id uuid;
+BEGIN
+    IF jsonb_array_length(_items) = 0 THEN
+        RAISE EXCEPTION 'Order must contain at least one item';
+    END IF;
+
+    INSERT INTO public.orders (user_id, guest_email, guest_phone, total_amount, shipping_address, status, payment_status, payment_id)
+    VALUES (
+        (_order->>'user_id')::uuid,
+        _order->>'guest_email',
+        _order->>'guest_phone',
+        (_order->>'total_amount')::numeric,
+        _order->>'shipping_address',
+        _order->>'status',
+        _order->>'payment_status',
+        _order->>'payment_id'
+    )
+    RETURNING id INTO _order_id;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT
+        _order_id,
+        (item->>'product_id')::uuid,
+        item->>'product_name',
+        (item->>'quantity')::integer,
+        (item->>'price')::numeric
+    FROM jsonb_array_elements(_items) AS item;
+
+    RETURN _order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, jsonb) TO service_role;
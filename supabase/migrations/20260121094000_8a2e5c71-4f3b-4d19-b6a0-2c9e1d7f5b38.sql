@@ -0,0 +1,21 @@
+-- Raw payment gateway webhook deliveries, kept for auditing and to make retries idempotent
+CREATE TABLE public.payment_events (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    provider text NOT NULL,
+    event_key text NOT NULL,
+    event_type text NOT NULL,
+    gateway_order_id text NOT NULL,
+    gateway_payment_id text,
+    payment_status text,
+    payload jsonb NOT NULL,
+    processed_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT payment_events_event_key_key UNIQUE (event_key)
+);
+
+CREATE INDEX idx_payment_events_gateway_order_id ON public.payment_events USING btree (gateway_order_id);
+
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Only the webhook function (service role) writes events
+CREATE POLICY "Admins can view payment events" ON public.payment_events FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
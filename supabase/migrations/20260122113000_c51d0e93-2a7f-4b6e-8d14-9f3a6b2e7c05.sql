@@ -0,0 +1,52 @@
+-- One order per payment reference / checkout session, so retries and page refreshes cannot duplicate orders
+ALTER TABLE public.orders ADD COLUMN idempotency_key text;
+
+ALTER TABLE ONLY public.orders
+    ADD CONSTRAINT orders_idempotency_key_key UNIQUE (idempotency_key);
+
+-- Return the existing order instead of inserting a second one when the key repeats
+CREATE OR REPLACE FUNCTION public.place_order(_order jsonb, _items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order_id uuid;
+BEGIN
+    IF jsonb_array_length(_items) = 0 THEN
+        RAISE EXCEPTION 'Order must contain at least one item';
+    END IF;
+
+    INSERT INTO public.orders (user_id, guest_email, guest_phone, total_amount, shipping_address, status, payment_status, payment_id, idempotency_key)
+    VALUES (
+        (_order->>'user_id')::uuid,
+        _order->>'guest_email',
+        _order->>'guest_phone',
+        (_order->>'total_amount')::numeric,
+        _order->>'shipping_address',
+        _order->>'status',
+        _order->>'payment_status',
+        _order->>'payment_id',
+        _order->>'idempotency_key'
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id INTO _order_id;
+
+    IF _order_id IS NULL THEN
+        SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _order->>'idempotency_key';
+        RETURN _order_id;
+    END IF;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT
+        _order_id,
+        (item->>'product_id')::uuid,
+        item->>'product_name',
+        (item->>'quantity')::integer,
+        (item->>'price')::numeric
+    FROM jsonb_array_elements(_items) AS item;
+
+    RETURN _order_id;
+END;
+$$;
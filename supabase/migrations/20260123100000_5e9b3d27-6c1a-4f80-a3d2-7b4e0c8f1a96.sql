@@ -0,0 +1,33 @@
+-- Snapshot of a checkout taken before the shopper is sent to a payment gateway, so the order
+-- can be rebuilt on return (or from the webhook) without relying on browser state
+CREATE TABLE public.checkout_sessions (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+    guest_email text,
+    guest_phone text,
+    items jsonb NOT NULL,
+    address jsonb NOT NULL,
+    payment_method text NOT NULL,
+    fee_payment_method text,
+    subtotal numeric(10,2) NOT NULL,
+    cod_charge numeric(10,2) DEFAULT 0 NOT NULL,
+    amount numeric(10,2) NOT NULL,
+    total_amount numeric(10,2) NOT NULL,
+    gateway_order_id text,
+    status text DEFAULT 'pending'::text NOT NULL,
+    order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT checkout_sessions_gateway_order_id_key UNIQUE (gateway_order_id),
+    CONSTRAINT checkout_sessions_payment_method_check CHECK (payment_method IN ('cashfree', 'scan', 'cod')),
+    CONSTRAINT checkout_sessions_status_check CHECK (status IN ('pending', 'completed'))
+);
+
+CREATE TRIGGER update_checkout_sessions_updated_at BEFORE UPDATE ON public.checkout_sessions FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.checkout_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Sessions are created and completed by edge functions (service role) only
+CREATE POLICY "Users can view their own checkout sessions" ON public.checkout_sessions FOR SELECT USING ((auth.uid() = user_id));
+
+CREATE POLICY "Admins can view all checkout sessions" ON public.checkout_sessions FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
@@ -0,0 +1,24 @@
+-- Scan & Pay orders start as awaiting_verification until an admin matches the shopper's UTR
+-- against a bank statement line; record who approved or rejected the payment and when
+ALTER TABLE public.orders
+    ADD COLUMN payment_verified_at timestamp with time zone,
+    ADD COLUMN payment_verified_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Credits imported from bank statement CSVs, one row per UTR
+CREATE TABLE public.bank_statement_entries (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    utr text NOT NULL,
+    amount numeric(10,2) NOT NULL,
+    transaction_date text,
+    description text,
+    matched_order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+    imported_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT bank_statement_entries_utr_key UNIQUE (utr)
+);
+
+CREATE INDEX idx_bank_statement_entries_matched_order_id ON public.bank_statement_entries (matched_order_id);
+
+ALTER TABLE public.bank_statement_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage bank statement entries" ON public.bank_statement_entries USING (public.has_role(auth.uid(), 'admin'::public.app_role));
@@ -0,0 +1,83 @@
+-- A UPI reference can only ever pay for one order
+ALTER TABLE public.orders ADD COLUMN utr text;
+
+-- Backfill from existing Scan & Pay payment ids; where a UTR was already reused only the earliest order keeps it
+WITH scan_payments AS (
+    SELECT id, substring(payment_id FROM '^(?:SCAN:UPI|COD:FEE_PAID:SCAN):(.+)$') AS utr,
+           row_number() OVER (PARTITION BY substring(payment_id FROM '^(?:SCAN:UPI|COD:FEE_PAID:SCAN):(.+)$') ORDER BY created_at) AS position
+    FROM public.orders
+    WHERE payment_id ~ '^(SCAN:UPI|COD:FEE_PAID:SCAN):'
+)
+UPDATE public.orders
+SET utr = scan_payments.utr
+FROM scan_payments
+WHERE public.orders.id = scan_payments.id AND scan_payments.position = 1;
+
+ALTER TABLE ONLY public.orders
+    ADD CONSTRAINT orders_utr_key UNIQUE (utr);
+
+-- Checkouts that were refused because their UTR already belongs to another order, for admins to review
+CREATE TABLE public.flagged_utr_attempts (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    utr text NOT NULL,
+    checkout_session_id uuid REFERENCES public.checkout_sessions(id) ON DELETE SET NULL,
+    existing_order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+    user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    guest_email text,
+    amount numeric(10,2) NOT NULL,
+    reviewed_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_flagged_utr_attempts_utr ON public.flagged_utr_attempts (utr);
+
+ALTER TABLE public.flagged_utr_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage flagged UTR attempts" ON public.flagged_utr_attempts USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE OR REPLACE FUNCTION public.place_order(_order jsonb, _items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order_id uuid;
+BEGIN
+    IF jsonb_array_length(_items) = 0 THEN
+        RAISE EXCEPTION 'Order must contain at least one item';
+    END IF;
+
+    INSERT INTO public.orders (user_id, guest_email, guest_phone, total_amount, shipping_address, status, payment_status, payment_id, idempotency_key, utr)
+    VALUES (
+        (_order->>'user_id')::uuid,
+        _order->>'guest_email',
+        _order->>'guest_phone',
+        (_order->>'total_amount')::numeric,
+        _order->>'shipping_address',
+        _order->>'status',
+        _order->>'payment_status',
+        _order->>'payment_id',
+        _order->>'idempotency_key',
+        _order->>'utr'
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id INTO _order_id;
+
+    IF _order_id IS NULL THEN
+        SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _order->>'idempotency_key';
+        RETURN _order_id;
+    END IF;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT
+        _order_id,
+        (item->>'product_id')::uuid,
+        item->>'product_name',
+        (item->>'quantity')::integer,
+        (item->>'price')::numeric
+    FROM jsonb_array_elements(_items) AS item;
+
+    RETURN _order_id;
+END;
+$$;
@@ -0,0 +1,2 @@
+-- Scan & Pay checkouts have a fixed window to complete the UPI transfer; Cashfree enforces its own expiry
+ALTER TABLE public.checkout_sessions ADD COLUMN expires_at timestamp with time zone;
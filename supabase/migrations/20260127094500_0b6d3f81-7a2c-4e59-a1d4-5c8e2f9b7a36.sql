@@ -0,0 +1,79 @@
+-- Full and partial refunds issued against an order. Cashfree-paid orders are refunded through the
+-- gateway; Scan & Pay orders are refunded by the merchant outside the site and recorded as manual.
+CREATE TABLE public.refunds (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    amount numeric(10,2) NOT NULL,
+    reason text,
+    method text NOT NULL,
+    gateway_refund_id text,
+    cf_refund_id text,
+    status text DEFAULT 'pending'::text NOT NULL,
+    created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    processed_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT refunds_gateway_refund_id_key UNIQUE (gateway_refund_id),
+    CONSTRAINT refunds_amount_check CHECK (amount > 0),
+    CONSTRAINT refunds_method_check CHECK (method IN ('cashfree', 'manual')),
+    CONSTRAINT refunds_status_check CHECK (status IN ('pending', 'processed', 'failed', 'cancelled'))
+);
+
+CREATE INDEX idx_refunds_order_id ON public.refunds (order_id);
+
+CREATE TRIGGER update_refunds_updated_at BEFORE UPDATE ON public.refunds FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+
+-- Refunds are issued through the cashfree-payment edge function (service role) only
+CREATE POLICY "Users can view refunds of their own orders" ON public.refunds FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM public.orders
+  WHERE ((orders.id = refunds.order_id) AND (orders.user_id = auth.uid())))));
+
+CREATE POLICY "Admins can view all refunds" ON public.refunds FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Records a refund if it fits in what is left of the payment. The order row is locked while the refunds
+-- so far are added up, so two refunds requested at once (say an admin refund and a customer cancelling)
+-- can never add up to more than was paid. What was paid is the checkout session's amount, which is just
+-- the confirmation charge for COD orders.
+CREATE OR REPLACE FUNCTION public.record_refund(
+    _order_id uuid,
+    _amount numeric,
+    _reason text,
+    _method text,
+    _gateway_refund_id text,
+    _status text,
+    _created_by uuid
+)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order record;
+    _refundable numeric;
+    _refund public.refunds;
+BEGIN
+    SELECT id, total_amount INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    _refundable := COALESCE((SELECT amount FROM public.checkout_sessions WHERE order_id = _order_id LIMIT 1), _order.total_amount)
+        - COALESCE((SELECT sum(amount) FROM public.refunds WHERE order_id = _order_id AND status IN ('pending', 'processed')), 0);
+
+    IF _amount > _refundable THEN
+        RAISE EXCEPTION 'At most ₹% can be refunded on this order', greatest(_refundable, 0) USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.refunds (order_id, amount, reason, method, gateway_refund_id, status, processed_at, created_by)
+    VALUES (_order_id, _amount, _reason, _method, _gateway_refund_id, _status, CASE WHEN _status = 'processed' THEN now() END, _created_by)
+    RETURNING * INTO _refund;
+
+    RETURN _refund;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_refund(uuid, numeric, text, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_refund(uuid, numeric, text, text, text, text, uuid) TO service_role;
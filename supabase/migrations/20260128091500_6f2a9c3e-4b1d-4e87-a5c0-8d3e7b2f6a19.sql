@@ -0,0 +1,121 @@
+-- Order lifecycle:
+--   pending_payment -> confirmed -> packed -> shipped -> out_for_delivery -> delivered
+-- with cancellation allowed until the parcel ships and returns once it has.
+UPDATE public.orders SET status = 'pending_payment' WHERE status = 'pending';
+UPDATE public.orders SET status = 'pending_payment' WHERE status = 'confirmed' AND payment_status = 'awaiting_verification';
+UPDATE public.orders SET status = 'confirmed'
+WHERE status NOT IN ('pending_payment', 'confirmed', 'packed', 'shipped', 'out_for_delivery', 'delivered', 'cancelled', 'returned');
+
+ALTER TABLE public.orders ALTER COLUMN status SET DEFAULT 'pending_payment'::text;
+
+ALTER TABLE ONLY public.orders
+    ADD CONSTRAINT orders_status_check CHECK (status IN ('pending_payment', 'confirmed', 'packed', 'shipped', 'out_for_delivery', 'delivered', 'cancelled', 'returned'));
+
+CREATE TABLE public.order_status_history (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    from_status text,
+    to_status text NOT NULL,
+    changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+    note text,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_order_status_history_order_id ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History rows are only written by the trigger below
+CREATE POLICY "Users can view their own order status history" ON public.order_status_history FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM public.orders
+  WHERE ((orders.id = order_status_history.order_id) AND (orders.user_id = auth.uid())))));
+
+CREATE POLICY "Admins can view all order status history" ON public.order_status_history FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Seed the history with each existing order's current state
+INSERT INTO public.order_status_history (order_id, from_status, to_status, created_at)
+SELECT id, NULL, status, created_at FROM public.orders;
+
+CREATE OR REPLACE FUNCTION public.is_valid_order_status_transition(_from text, _to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE _from
+        WHEN 'pending_payment' THEN _to IN ('confirmed', 'cancelled')
+        WHEN 'confirmed' THEN _to IN ('packed', 'cancelled')
+        WHEN 'packed' THEN _to IN ('shipped', 'cancelled')
+        WHEN 'shipped' THEN _to IN ('out_for_delivery', 'delivered', 'returned')
+        WHEN 'out_for_delivery' THEN _to IN ('delivered', 'returned')
+        WHEN 'delivered' THEN _to IN ('returned')
+        ELSE false
+    END
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status
+       AND NOT public.is_valid_order_status_transition(OLD.status, NEW.status) THEN
+        RAISE EXCEPTION 'Order status cannot change from % to %', OLD.status, NEW.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- The actor is whoever made the change (NULL for edge functions running as the service role); a note can
+-- be passed for the current transaction with set_config('app.order_status_note', ..., true)
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, note)
+        VALUES (
+            NEW.id,
+            CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE OLD.status END,
+            NEW.status,
+            auth.uid(),
+            NULLIF(current_setting('app.order_status_note', true), '')
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_order_status_transition BEFORE UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.enforce_order_status_transition();
+
+CREATE TRIGGER record_order_status_change AFTER INSERT OR UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.record_order_status_change();
+
+-- Admin entry point for moving an order along, with an optional note kept in the history
+CREATE OR REPLACE FUNCTION public.update_order_status(_order_id uuid, _status text, _note text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+        RAISE EXCEPTION 'Only admins can change order status' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM set_config('app.order_status_note', COALESCE(_note, ''), true);
+
+    UPDATE public.orders SET status = _status WHERE id = _order_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_order_status(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(uuid, text, text) TO authenticated;
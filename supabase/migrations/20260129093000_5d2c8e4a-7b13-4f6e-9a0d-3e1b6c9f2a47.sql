@@ -0,0 +1,48 @@
+-- Courier details captured when an order is handed over for shipping
+ALTER TABLE public.orders ADD COLUMN courier_name text;
+ALTER TABLE public.orders ADD COLUMN awb_number text;
+ALTER TABLE public.orders ADD COLUMN tracking_url text;
+
+-- update_order_status gains the courier details, so the old signature is replaced rather than overloaded
+DROP FUNCTION public.update_order_status(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.update_order_status(
+    _order_id uuid,
+    _status text,
+    _note text DEFAULT NULL,
+    _courier_name text DEFAULT NULL,
+    _awb_number text DEFAULT NULL,
+    _tracking_url text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+        RAISE EXCEPTION 'Only admins can change order status' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF _status = 'shipped' AND (NULLIF(btrim(_courier_name), '') IS NULL OR NULLIF(btrim(_awb_number), '') IS NULL) THEN
+        RAISE EXCEPTION 'Courier and AWB number are required to ship an order' USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('app.order_status_note', COALESCE(_note, ''), true);
+
+    UPDATE public.orders
+    SET status = _status,
+        courier_name = COALESCE(NULLIF(btrim(_courier_name), ''), courier_name),
+        awb_number = COALESCE(NULLIF(btrim(_awb_number), ''), awb_number),
+        tracking_url = COALESCE(NULLIF(btrim(_tracking_url), ''), tracking_url)
+    WHERE id = _order_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_order_status(uuid, text, text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(uuid, text, text, text, text, text) TO authenticated;
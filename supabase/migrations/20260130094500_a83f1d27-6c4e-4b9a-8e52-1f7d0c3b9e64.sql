@@ -0,0 +1,45 @@
+-- Customer cancellations before the order ships
+ALTER TABLE public.orders ADD COLUMN cancellation_reason text;
+ALTER TABLE public.orders ADD COLUMN cancelled_at timestamp with time zone;
+
+-- Runs as the calling customer, so only their own orders can be cancelled. Refunding whatever was paid
+-- online is left to the cashfree-payment function, which calls this first.
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _status text;
+BEGIN
+    IF NULLIF(btrim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A cancellation reason is required' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT status INTO _status
+    FROM public.orders
+    WHERE id = _order_id AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order not found' USING ERRCODE = 'no_data_found';
+    END IF;
+    IF _status NOT IN ('pending_payment', 'confirmed', 'packed') THEN
+        RAISE EXCEPTION 'This order can no longer be cancelled' USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('app.order_status_note', 'Cancelled by customer: ' || btrim(_reason), true);
+
+    UPDATE public.orders
+    SET status = 'cancelled',
+        cancellation_reason = btrim(_reason),
+        cancelled_at = now()
+    WHERE id = _order_id;
+
+    PERFORM set_config('app.order_status_note', '', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(uuid, text) TO authenticated;
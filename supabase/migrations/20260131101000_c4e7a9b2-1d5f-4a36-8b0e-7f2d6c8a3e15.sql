@@ -0,0 +1,163 @@
+-- Return and replacement requests raised against individual items of a delivered order.
+-- Lifecycle: requested -> approved -> pickup_scheduled -> closed, or requested -> rejected.
+CREATE TABLE public.return_requests (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    order_item_id uuid NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    request_type text NOT NULL,
+    quantity integer NOT NULL,
+    reason text NOT NULL,
+    details text,
+    photo_paths text[] DEFAULT '{}'::text[] NOT NULL,
+    status text DEFAULT 'requested'::text NOT NULL,
+    pickup_date date,
+    admin_note text,
+    resolved_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT return_requests_request_type_check CHECK (request_type IN ('return', 'replacement')),
+    CONSTRAINT return_requests_quantity_check CHECK (quantity > 0),
+    CONSTRAINT return_requests_status_check CHECK (status IN ('requested', 'approved', 'rejected', 'pickup_scheduled', 'closed'))
+);
+
+CREATE INDEX idx_return_requests_order_id ON public.return_requests (order_id);
+CREATE INDEX idx_return_requests_status ON public.return_requests (status, created_at);
+
+-- A rejected request can be raised again; anything else blocks a second one for the same item
+CREATE UNIQUE INDEX return_requests_open_item_key ON public.return_requests (order_item_id) WHERE status <> 'rejected';
+
+CREATE TRIGGER update_return_requests_updated_at BEFORE UPDATE ON public.return_requests FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.return_requests ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created and moved along through the RPCs below only
+CREATE POLICY "Users can view their own return requests" ON public.return_requests FOR SELECT USING ((auth.uid() = user_id));
+
+CREATE POLICY "Admins can view all return requests" ON public.return_requests FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Photos live under <user id>/ in a private bucket; admins read them through signed URLs
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('return-photos', 'return-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own return photos" ON storage.objects FOR INSERT WITH CHECK (((bucket_id = 'return-photos'::text) AND ((storage.foldername(name))[1] = (auth.uid())::text)));
+
+CREATE POLICY "Users can view their own return photos" ON storage.objects FOR SELECT USING (((bucket_id = 'return-photos'::text) AND ((storage.foldername(name))[1] = (auth.uid())::text)));
+
+CREATE POLICY "Admins can view all return photos" ON storage.objects FOR SELECT USING (((bucket_id = 'return-photos'::text) AND public.has_role(auth.uid(), 'admin'::public.app_role)));
+
+-- Items can be returned or replaced for 7 days after the order is delivered
+CREATE OR REPLACE FUNCTION public.create_return_request(
+    _order_item_id uuid,
+    _request_type text,
+    _quantity integer,
+    _reason text,
+    _details text DEFAULT NULL,
+    _photo_paths text[] DEFAULT '{}'::text[]
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _item record;
+    _delivered_at timestamp with time zone;
+    _request_id uuid;
+BEGIN
+    IF NULLIF(btrim(_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT order_items.id, order_items.order_id, order_items.quantity, orders.status
+    INTO _item
+    FROM public.order_items
+    JOIN public.orders ON orders.id = order_items.order_id
+    WHERE order_items.id = _order_item_id AND orders.user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order item not found' USING ERRCODE = 'no_data_found';
+    END IF;
+    IF _item.status <> 'delivered' THEN
+        RAISE EXCEPTION 'Only delivered orders can be returned' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT max(created_at) INTO _delivered_at
+    FROM public.order_status_history
+    WHERE order_id = _item.order_id AND to_status = 'delivered';
+
+    IF _delivered_at IS NOT NULL AND _delivered_at < now() - interval '7 days' THEN
+        RAISE EXCEPTION 'The return window for this order has closed' USING ERRCODE = 'check_violation';
+    END IF;
+    IF _quantity IS NULL OR _quantity < 1 OR _quantity > _item.quantity THEN
+        RAISE EXCEPTION 'Invalid quantity' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Photos must have been uploaded by the same customer
+    IF EXISTS (SELECT 1 FROM unnest(_photo_paths) AS path WHERE split_part(path, '/', 1) <> auth.uid()::text) THEN
+        RAISE EXCEPTION 'Invalid photo' USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO public.return_requests (order_id, order_item_id, user_id, request_type, quantity, reason, details, photo_paths)
+    VALUES (_item.order_id, _item.id, auth.uid(), _request_type, _quantity, btrim(_reason), NULLIF(btrim(_details), ''), COALESCE(_photo_paths, '{}'::text[]))
+    RETURNING id INTO _request_id;
+
+    RETURN _request_id;
+EXCEPTION
+    WHEN unique_violation THEN
+        RAISE EXCEPTION 'A request is already open for this item' USING ERRCODE = 'unique_violation';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_return_request(uuid, text, integer, text, text, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_return_request(uuid, text, integer, text, text, text[]) TO authenticated;
+
+-- Admin entry point for working through the returns queue
+CREATE OR REPLACE FUNCTION public.update_return_request(
+    _request_id uuid,
+    _status text,
+    _pickup_date date DEFAULT NULL,
+    _note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _current text;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+        RAISE EXCEPTION 'Only admins can update return requests' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT status INTO _current FROM public.return_requests WHERE id = _request_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Return request not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF NOT CASE _current
+        WHEN 'requested' THEN _status IN ('approved', 'rejected')
+        WHEN 'approved' THEN _status IN ('pickup_scheduled')
+        WHEN 'pickup_scheduled' THEN _status IN ('closed')
+        ELSE false
+    END THEN
+        RAISE EXCEPTION 'Return request cannot change from % to %', _current, _status USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _status = 'pickup_scheduled' AND _pickup_date IS NULL THEN
+        RAISE EXCEPTION 'A pickup date is required' USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.return_requests
+    SET status = _status,
+        pickup_date = COALESCE(_pickup_date, pickup_date),
+        admin_note = COALESCE(NULLIF(btrim(_note), ''), admin_note),
+        resolved_at = CASE WHEN _status IN ('rejected', 'closed') THEN now() ELSE resolved_at END
+    WHERE id = _request_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_return_request(uuid, text, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_return_request(uuid, text, date, text) TO authenticated;
@@ -0,0 +1,227 @@
+-- GST details per product. Selling prices are tax inclusive, so the rate is used to split them into
+-- taxable value and tax on the invoice.
+ALTER TABLE public.products ADD COLUMN hsn_code text;
+ALTER TABLE public.products ADD COLUMN gst_rate numeric(5,2) DEFAULT 18 NOT NULL;
+
+ALTER TABLE ONLY public.products
+    ADD CONSTRAINT products_gst_rate_check CHECK (gst_rate IN (0, 0.25, 3, 5, 12, 18, 28));
+
+-- The state picked at checkout decides between CGST + SGST and IGST
+ALTER TABLE public.orders ADD COLUMN shipping_state text;
+
+UPDATE public.orders
+SET shipping_state = substring(split_part(shipping_address, E'\n', 4) FROM ',\s*([^,]+?)\s*-\s*\d{6}$')
+WHERE shipping_address IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.place_order(_order jsonb, _items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order_id uuid;
+BEGIN
+    IF jsonb_array_length(_items) = 0 THEN
+        RAISE EXCEPTION 'Order must contain at least one item';
+    END IF;
+
+    INSERT INTO public.orders (user_id, guest_email, guest_phone, total_amount, shipping_address, shipping_state, status, payment_status, payment_id, idempotency_key, utr)
+    VALUES (
+        (_order->>'user_id')::uuid,
+        _order->>'guest_email',
+        _order->>'guest_phone',
+        (_order->>'total_amount')::numeric,
+        _order->>'shipping_address',
+        _order->>'shipping_state',
+        _order->>'status',
+        _order->>'payment_status',
+        _order->>'payment_id',
+        _order->>'idempotency_key',
+        _order->>'utr'
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id INTO _order_id;
+
+    IF _order_id IS NULL THEN
+        SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _order->>'idempotency_key';
+        RETURN _order_id;
+    END IF;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT
+        _order_id,
+        (item->>'product_id')::uuid,
+        item->>'product_name',
+        (item->>'quantity')::integer,
+        (item->>'price')::numeric
+    FROM jsonb_array_elements(_items) AS item;
+
+    RETURN _order_id;
+END;
+$$;
+
+-- Tax invoices. Seller, buyer and line details are copied in when the invoice is issued so it never
+-- changes afterwards, whatever happens to the products or settings.
+CREATE SEQUENCE public.invoice_number_seq;
+
+CREATE TABLE public.invoices (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    invoice_number text NOT NULL,
+    invoice_date date DEFAULT CURRENT_DATE NOT NULL,
+    seller jsonb NOT NULL,
+    buyer jsonb NOT NULL,
+    place_of_supply text,
+    is_interstate boolean NOT NULL,
+    lines jsonb NOT NULL,
+    taxable_amount numeric(10,2) NOT NULL,
+    cgst_amount numeric(10,2) DEFAULT 0 NOT NULL,
+    sgst_amount numeric(10,2) DEFAULT 0 NOT NULL,
+    igst_amount numeric(10,2) DEFAULT 0 NOT NULL,
+    total_amount numeric(10,2) NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT invoices_order_id_key UNIQUE (order_id),
+    CONSTRAINT invoices_invoice_number_key UNIQUE (invoice_number)
+);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+-- Invoices are issued through generate_invoice only
+CREATE POLICY "Users can view invoices of their own orders" ON public.invoices FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM public.orders
+  WHERE ((orders.id = invoices.order_id) AND (orders.user_id = auth.uid())))));
+
+CREATE POLICY "Admins can view all invoices" ON public.invoices FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Issues the invoice for an order on first request and returns the existing one after that. Numbers run
+-- sequentially as FM<financial year>-<serial>, e.g. FM2627-000001, and are only taken once an invoice is
+-- actually written. The COD charge, when there is one, is billed as a service line at 18%.
+CREATE OR REPLACE FUNCTION public.generate_invoice(_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order record;
+    _invoice_id uuid;
+    _settings jsonb;
+    _seller_state text;
+    _is_interstate boolean;
+    _lines jsonb;
+    _today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+    _fy_start integer;
+BEGIN
+    SELECT id, user_id, status, total_amount, shipping_address, shipping_state
+    INTO _order
+    FROM public.orders
+    WHERE id = _order_id
+    -- Serialises concurrent requests for the same order so only one invoice number is ever taken
+    FOR UPDATE;
+
+    IF NOT FOUND OR (_order.user_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin'::public.app_role)) THEN
+        RAISE EXCEPTION 'Order not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT id INTO _invoice_id FROM public.invoices WHERE order_id = _order_id;
+    IF FOUND THEN
+        RETURN _invoice_id;
+    END IF;
+
+    IF _order.status IN ('pending_payment', 'cancelled') THEN
+        RAISE EXCEPTION 'An invoice is only available once the order is confirmed' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT jsonb_object_agg(key, value) INTO _settings
+    FROM public.settings
+    WHERE key IN ('seller_legal_name', 'seller_gstin', 'seller_address', 'seller_state');
+
+    IF NULLIF(_settings->>'seller_gstin', '') IS NULL OR NULLIF(_settings->>'seller_state', '') IS NULL THEN
+        RAISE EXCEPTION 'Seller GSTIN and state must be set before invoices can be issued' USING ERRCODE = 'check_violation';
+    END IF;
+
+    _seller_state := _settings->>'seller_state';
+    _is_interstate := lower(btrim(COALESCE(_order.shipping_state, ''))) <> lower(btrim(_seller_state));
+
+    WITH items AS (
+        SELECT
+            order_items.product_name AS description,
+            products.hsn_code AS hsn,
+            order_items.quantity,
+            order_items.price,
+            COALESCE(products.gst_rate, 18) AS rate,
+            order_items.price * order_items.quantity AS gross,
+            order_items.created_at,
+            order_items.id
+        FROM public.order_items
+        LEFT JOIN public.products ON products.id = order_items.product_id
+        WHERE order_items.order_id = _order_id
+    ),
+    charges AS (
+        SELECT description, hsn, quantity, price, rate, gross, position
+        FROM (
+            SELECT description, hsn, quantity, price, rate, gross, row_number() OVER (ORDER BY created_at, id) AS position FROM items
+            UNION ALL
+            SELECT 'Cash on Delivery charges', '9985', 1, _order.total_amount - (SELECT sum(gross) FROM items), 18,
+                   _order.total_amount - (SELECT sum(gross) FROM items), 1000000
+        ) AS all_lines
+        WHERE gross > 0
+    ),
+    taxed AS (
+        SELECT *, round(gross * 100 / (100 + rate), 2) AS taxable FROM charges
+    )
+    SELECT jsonb_agg(jsonb_build_object(
+        'description', description,
+        'hsn', hsn,
+        'quantity', quantity,
+        'unit_price', price,
+        'rate', rate,
+        'taxable', taxable,
+        'cgst', CASE WHEN _is_interstate THEN 0 ELSE round((gross - taxable) / 2, 2) END,
+        'sgst', CASE WHEN _is_interstate THEN 0 ELSE (gross - taxable) - round((gross - taxable) / 2, 2) END,
+        'igst', CASE WHEN _is_interstate THEN gross - taxable ELSE 0 END,
+        'total', gross
+    ) ORDER BY position)
+    INTO _lines
+    FROM taxed;
+
+    IF _lines IS NULL THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Indian financial years run April to March
+    _fy_start := extract(year FROM _today)::integer - CASE WHEN extract(month FROM _today) < 4 THEN 1 ELSE 0 END;
+
+    INSERT INTO public.invoices (
+        order_id, invoice_number, invoice_date, seller, buyer, place_of_supply, is_interstate, lines,
+        taxable_amount, cgst_amount, sgst_amount, igst_amount, total_amount
+    )
+    SELECT
+        _order_id,
+        'FM' || lpad((_fy_start % 100)::text, 2, '0') || lpad(((_fy_start + 1) % 100)::text, 2, '0')
+            || '-' || lpad(nextval('public.invoice_number_seq')::text, 6, '0'),
+        _today,
+        jsonb_build_object(
+            'name', COALESCE(_settings->>'seller_legal_name', ''),
+            'gstin', _settings->>'seller_gstin',
+            'address', COALESCE(_settings->>'seller_address', ''),
+            'state', _seller_state
+        ),
+        jsonb_build_object('address', COALESCE(_order.shipping_address, ''), 'state', _order.shipping_state),
+        _order.shipping_state,
+        _is_interstate,
+        _lines,
+        (SELECT sum((line->>'taxable')::numeric) FROM jsonb_array_elements(_lines) AS line),
+        (SELECT sum((line->>'cgst')::numeric) FROM jsonb_array_elements(_lines) AS line),
+        (SELECT sum((line->>'sgst')::numeric) FROM jsonb_array_elements(_lines) AS line),
+        (SELECT sum((line->>'igst')::numeric) FROM jsonb_array_elements(_lines) AS line),
+        (SELECT sum((line->>'total')::numeric) FROM jsonb_array_elements(_lines) AS line)
+    RETURNING id INTO _invoice_id;
+
+    RETURN _invoice_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_invoice(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_invoice(uuid) TO authenticated;
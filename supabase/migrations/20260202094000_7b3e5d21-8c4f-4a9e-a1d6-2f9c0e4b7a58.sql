@@ -0,0 +1,81 @@
+-- Guest orders have no user_id, so the original policies let every signed-out visitor read all of them.
+-- Orders are now visible only to the account that placed them; guests go through lookup_guest_order.
+DROP POLICY IF EXISTS "Users can view their own orders" ON public.orders;
+CREATE POLICY "Users can view their own orders" ON public.orders FOR SELECT USING ((auth.uid() = user_id));
+
+DROP POLICY IF EXISTS "Users can view their own order items" ON public.order_items;
+CREATE POLICY "Users can view their own order items" ON public.order_items FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM public.orders
+  WHERE ((orders.id = order_items.order_id) AND (orders.user_id = auth.uid())))));
+
+-- Order lookup for guests, who have no session and so cannot read orders through RLS. The caller has
+-- to know both the order ID and the email or phone number given at checkout, and only that one order
+-- comes back, without the delivery address or internal notes.
+CREATE OR REPLACE FUNCTION public.lookup_guest_order(_order_id uuid, _contact text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _contact_email text := lower(btrim(_contact));
+    -- Phone numbers are compared on their last 10 digits so +91 and spacing do not matter
+    _contact_phone text := right(regexp_replace(COALESCE(_contact, ''), '\D', '', 'g'), 10);
+    _result jsonb;
+BEGIN
+    IF _contact_email = '' THEN
+        RAISE EXCEPTION 'An email address or phone number is required' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT jsonb_build_object(
+        'id', orders.id,
+        'status', orders.status,
+        'payment_status', orders.payment_status,
+        'total_amount', orders.total_amount,
+        'shipping_state', orders.shipping_state,
+        'courier_name', orders.courier_name,
+        'awb_number', orders.awb_number,
+        'tracking_url', orders.tracking_url,
+        'cancellation_reason', orders.cancellation_reason,
+        'created_at', orders.created_at,
+        'order_items', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', order_items.id,
+                'product_name', order_items.product_name,
+                'quantity', order_items.quantity,
+                'price', order_items.price
+            ) ORDER BY order_items.created_at, order_items.id)
+            FROM public.order_items
+            WHERE order_items.order_id = orders.id
+        ), '[]'::jsonb),
+        'order_status_history', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', order_status_history.id,
+                'from_status', order_status_history.from_status,
+                'to_status', order_status_history.to_status,
+                'created_at', order_status_history.created_at
+            ) ORDER BY order_status_history.created_at)
+            FROM public.order_status_history
+            WHERE order_status_history.order_id = orders.id
+        ), '[]'::jsonb)
+    )
+    INTO _result
+    FROM public.orders
+    WHERE orders.id = _order_id
+      AND (
+          lower(orders.guest_email) = _contact_email
+          OR (length(_contact_phone) = 10 AND right(regexp_replace(COALESCE(orders.guest_phone, ''), '\D', '', 'g'), 10) = _contact_phone)
+      );
+
+    -- The same error whether the order does not exist or the contact does not match
+    IF _result IS NULL THEN
+        RAISE EXCEPTION 'No order matches these details' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN _result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lookup_guest_order(uuid, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.lookup_guest_order(uuid, text) TO anon, authenticated;
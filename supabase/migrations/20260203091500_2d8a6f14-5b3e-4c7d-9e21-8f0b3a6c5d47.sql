@@ -0,0 +1,72 @@
+-- Orders placed as a guest are linked to an account once its owner has verified the same email address.
+-- Only unowned orders are touched and guest_email is kept, so /track-order keeps working for them.
+CREATE OR REPLACE FUNCTION public.attach_guest_orders(_user_id uuid, _email text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _claimed integer;
+BEGIN
+    IF NULLIF(btrim(_email), '') IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    UPDATE public.orders
+    SET user_id = _user_id
+    WHERE user_id IS NULL
+      AND lower(guest_email) = lower(btrim(_email));
+
+    GET DIAGNOSTICS _claimed = ROW_COUNT;
+    RETURN _claimed;
+END;
+$$;
+
+-- Internal helper; the trigger and claim_guest_orders decide whether the email has been verified
+REVOKE EXECUTE ON FUNCTION public.attach_guest_orders(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_user_email_verified()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NEW.email_confirmed_at IS NOT NULL THEN
+        PERFORM public.attach_guest_orders(NEW.id, NEW.email);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- Covers sign ups with auto-confirm, confirmation links and confirmed email changes
+CREATE TRIGGER on_auth_user_email_verified
+  AFTER INSERT OR UPDATE OF email_confirmed_at, email ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_user_email_verified();
+
+-- Picks up guest orders placed with a verified account's email after it was created, e.g. while logged out
+CREATE OR REPLACE FUNCTION public.claim_guest_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _user record;
+BEGIN
+    SELECT id, email, email_confirmed_at INTO _user FROM auth.users WHERE id = auth.uid();
+
+    IF NOT FOUND OR _user.email_confirmed_at IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    RETURN public.attach_guest_orders(_user.id, _user.email);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_guest_orders() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_guest_orders() TO authenticated;
+
+-- Backfill for accounts that already exist
+SELECT public.attach_guest_orders(id, email) FROM auth.users WHERE email_confirmed_at IS NOT NULL;
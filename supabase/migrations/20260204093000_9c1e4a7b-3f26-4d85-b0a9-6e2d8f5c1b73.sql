@@ -0,0 +1,156 @@
+-- Outbox for transactional emails. Rows are queued by the triggers below when an order changes status
+-- or a refund goes through, and delivered by the send-notifications edge function.
+CREATE TABLE public.email_notifications (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    refund_id uuid REFERENCES public.refunds(id) ON DELETE CASCADE,
+    template text NOT NULL,
+    recipient text NOT NULL,
+    status text DEFAULT 'pending'::text NOT NULL,
+    attempts integer DEFAULT 0 NOT NULL,
+    last_error text,
+    locked_at timestamp with time zone,
+    sent_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT email_notifications_template_check CHECK (template IN ('order_confirmation', 'order_shipped', 'order_delivered', 'refund_processed')),
+    CONSTRAINT email_notifications_status_check CHECK (status IN ('pending', 'sending', 'sent', 'failed'))
+);
+
+CREATE INDEX idx_email_notifications_status ON public.email_notifications (status, created_at);
+
+-- One email per order event, however many times the status or refund row is touched
+CREATE UNIQUE INDEX email_notifications_order_template_key ON public.email_notifications (order_id, template) WHERE refund_id IS NULL;
+CREATE UNIQUE INDEX email_notifications_refund_key ON public.email_notifications (refund_id) WHERE refund_id IS NOT NULL;
+
+CREATE TRIGGER update_email_notifications_updated_at BEFORE UPDATE ON public.email_notifications FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.email_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Written by triggers and the edge function (service role) only
+CREATE POLICY "Admins can view all email notifications" ON public.email_notifications FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Sends to the account email for registered customers and the checkout email for guests
+CREATE OR REPLACE FUNCTION public.enqueue_order_email(_order_id uuid, _template text, _refund_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _recipient text;
+BEGIN
+    SELECT COALESCE(users.email, orders.guest_email)
+    INTO _recipient
+    FROM public.orders
+    LEFT JOIN auth.users ON users.id = orders.user_id
+    WHERE orders.id = _order_id;
+
+    IF NULLIF(btrim(_recipient), '') IS NULL THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.email_notifications (order_id, refund_id, template, recipient)
+    VALUES (_order_id, _refund_id, _template, btrim(_recipient))
+    ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_order_email(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.queue_order_status_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    CASE NEW.to_status
+        WHEN 'confirmed' THEN PERFORM public.enqueue_order_email(NEW.order_id, 'order_confirmation');
+        WHEN 'shipped' THEN PERFORM public.enqueue_order_email(NEW.order_id, 'order_shipped');
+        WHEN 'delivered' THEN PERFORM public.enqueue_order_email(NEW.order_id, 'order_delivered');
+        ELSE NULL;
+    END CASE;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_order_status_email AFTER INSERT ON public.order_status_history FOR EACH ROW EXECUTE FUNCTION public.queue_order_status_email();
+
+CREATE OR REPLACE FUNCTION public.queue_refund_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NEW.status = 'processed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'processed') THEN
+        PERFORM public.enqueue_order_email(NEW.order_id, 'refund_processed', NEW.id);
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_refund_email AFTER INSERT OR UPDATE OF status ON public.refunds FOR EACH ROW EXECUTE FUNCTION public.queue_refund_email();
+
+-- Hands out a batch of queued emails to one sender at a time. Rows left in 'sending' by a run that died
+-- are picked up again after ten minutes.
+CREATE OR REPLACE FUNCTION public.claim_email_notifications(_limit integer DEFAULT 25)
+RETURNS SETOF public.email_notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.email_notifications
+    SET status = 'sending', locked_at = now(), attempts = attempts + 1
+    WHERE id IN (
+        SELECT id
+        FROM public.email_notifications
+        WHERE status = 'pending' OR (status = 'sending' AND locked_at < now() - interval '10 minutes')
+        ORDER BY created_at
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_notifications(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_email_notifications(integer) TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS "pg_cron" WITH SCHEMA "pg_catalog";
+CREATE EXTENSION IF NOT EXISTS "pg_net" WITH SCHEMA "extensions";
+
+-- Calls an edge function with the service role key, for scheduled jobs. The project URL and key are read
+-- from Vault secrets named project_url and service_role_key; until both are stored it does nothing.
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_name text)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _project_url text;
+    _service_role_key text;
+BEGIN
+    SELECT decrypted_secret INTO _project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+    SELECT decrypted_secret INTO _service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+    IF NULLIF(_project_url, '') IS NULL OR NULLIF(_service_role_key, '') IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN net.http_post(
+        url := rtrim(_project_url, '/') || '/functions/v1/' || _name,
+        headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || _service_role_key),
+        body := '{}'::jsonb
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(text) FROM PUBLIC, anon, authenticated;
+
+-- Drain the email outbox every minute
+SELECT cron.schedule('send-notifications', '* * * * *', $$SELECT public.invoke_edge_function('send-notifications')$$);
@@ -0,0 +1,124 @@
+-- Customers can turn off order update texts per channel
+ALTER TABLE public.profiles ADD COLUMN sms_opt_out boolean DEFAULT false NOT NULL;
+ALTER TABLE public.profiles ADD COLUMN whatsapp_opt_out boolean DEFAULT false NOT NULL;
+
+-- Outbox for SMS and WhatsApp order updates, delivered by the send-messages edge function. Which
+-- channels are used is set by the order_message_channels setting, e.g. 'sms' or 'sms,whatsapp'.
+CREATE TABLE public.outbound_messages (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    channel text NOT NULL,
+    template text NOT NULL,
+    recipient text NOT NULL,
+    status text DEFAULT 'pending'::text NOT NULL,
+    attempts integer DEFAULT 0 NOT NULL,
+    last_error text,
+    provider text,
+    provider_message_id text,
+    locked_at timestamp with time zone,
+    sent_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT outbound_messages_channel_check CHECK (channel IN ('sms', 'whatsapp')),
+    CONSTRAINT outbound_messages_template_check CHECK (template IN ('order_confirmation', 'order_shipped', 'order_out_for_delivery', 'order_delivered', 'order_cancelled')),
+    -- skipped: the customer opted out after the message was queued
+    CONSTRAINT outbound_messages_status_check CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'skipped')),
+    CONSTRAINT outbound_messages_order_channel_template_key UNIQUE (order_id, channel, template)
+);
+
+CREATE INDEX idx_outbound_messages_status ON public.outbound_messages (status, created_at);
+
+CREATE TRIGGER update_outbound_messages_updated_at BEFORE UPDATE ON public.outbound_messages FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.outbound_messages ENABLE ROW LEVEL SECURITY;
+
+-- Written by triggers and the edge function (service role) only
+CREATE POLICY "Admins can view all outbound messages" ON public.outbound_messages FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Texts go to the profile phone for account holders, falling back to the checkout phone (guest_phone, or
+-- the phone line of the shipping address). Numbers are stored as +91 followed by the last 10 digits.
+CREATE OR REPLACE FUNCTION public.enqueue_order_message(_order_id uuid, _template text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order record;
+    _digits text;
+    _channels text[];
+BEGIN
+    SELECT
+        COALESCE(NULLIF(btrim(profiles.phone), ''), NULLIF(btrim(orders.guest_phone), ''), split_part(orders.shipping_address, E'\n', 2)) AS phone,
+        COALESCE(profiles.sms_opt_out, false) AS sms_opt_out,
+        COALESCE(profiles.whatsapp_opt_out, false) AS whatsapp_opt_out
+    INTO _order
+    FROM public.orders
+    LEFT JOIN public.profiles ON profiles.user_id = orders.user_id
+    WHERE orders.id = _order_id;
+
+    _digits := regexp_replace(COALESCE(_order.phone, ''), '\D', '', 'g');
+    IF length(_digits) < 10 THEN
+        RETURN;
+    END IF;
+
+    SELECT string_to_array(replace(value, ' ', ''), ',') INTO _channels FROM public.settings WHERE key = 'order_message_channels';
+
+    INSERT INTO public.outbound_messages (order_id, channel, template, recipient)
+    SELECT _order_id, channel, _template, '+91' || right(_digits, 10)
+    FROM unnest(COALESCE(_channels, ARRAY['sms'])) AS channel
+    WHERE (channel = 'sms' AND NOT _order.sms_opt_out)
+       OR (channel = 'whatsapp' AND NOT _order.whatsapp_opt_out)
+    ON CONFLICT DO NOTHING;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_order_message(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.queue_order_status_message()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NEW.to_status IN ('confirmed', 'shipped', 'out_for_delivery', 'delivered', 'cancelled') THEN
+        PERFORM public.enqueue_order_message(
+            NEW.order_id,
+            CASE NEW.to_status WHEN 'confirmed' THEN 'order_confirmation' ELSE 'order_' || NEW.to_status END
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_order_status_message AFTER INSERT ON public.order_status_history FOR EACH ROW EXECUTE FUNCTION public.queue_order_status_message();
+
+-- Same batching as claim_email_notifications
+CREATE OR REPLACE FUNCTION public.claim_outbound_messages(_limit integer DEFAULT 25)
+RETURNS SETOF public.outbound_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.outbound_messages
+    SET status = 'sending', locked_at = now(), attempts = attempts + 1
+    WHERE id IN (
+        SELECT id
+        FROM public.outbound_messages
+        WHERE status = 'pending' OR (status = 'sending' AND locked_at < now() - interval '10 minutes')
+        ORDER BY created_at
+        LIMIT _limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_outbound_messages(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_outbound_messages(integer) TO service_role;
+
+-- Drain the message queue every minute, the same way as the email outbox
+SELECT cron.schedule('send-messages', '* * * * *', $$SELECT public.invoke_edge_function('send-messages')$$);
@@ -0,0 +1,160 @@
+-- Stock levels. stock_quantity is what is physically on hand; checkouts waiting for payment hold part of it
+-- through stock_reservations until the order is placed or the reservation lapses.
+-- Existing products start at 0 rather than a made-up count; see the Inventory section of the README
+ALTER TABLE public.products ADD COLUMN stock_quantity integer DEFAULT 0 NOT NULL;
+ALTER TABLE public.products ADD COLUMN low_stock_threshold integer DEFAULT 5 NOT NULL;
+
+ALTER TABLE ONLY public.products
+    ADD CONSTRAINT products_low_stock_threshold_check CHECK (low_stock_threshold >= 0);
+
+CREATE TABLE public.stock_reservations (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    checkout_session_id uuid NOT NULL REFERENCES public.checkout_sessions(id) ON DELETE CASCADE,
+    product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    quantity integer NOT NULL,
+    expires_at timestamp with time zone NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT stock_reservations_quantity_check CHECK (quantity > 0),
+    CONSTRAINT stock_reservations_session_product_key UNIQUE (checkout_session_id, product_id)
+);
+
+CREATE INDEX idx_stock_reservations_product_id ON public.stock_reservations (product_id, expires_at);
+
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Reservations are managed by the checkout edge functions (service role) only
+CREATE POLICY "Admins can view all stock reservations" ON public.stock_reservations FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+-- Holds stock for every line of a checkout session, or fails without holding anything. Product rows are
+-- locked in id order so concurrent checkouts for the same items queue up instead of overselling.
+CREATE OR REPLACE FUNCTION public.reserve_checkout_stock(_checkout_session_id uuid, _expires_at timestamp with time zone)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _line record;
+    _reserved integer;
+BEGIN
+    DELETE FROM public.stock_reservations WHERE expires_at <= now();
+
+    FOR _line IN
+        SELECT products.id, products.name, products.stock_quantity, wanted.quantity
+        FROM (
+            SELECT (item->>'product_id')::uuid AS product_id, sum((item->>'quantity')::integer) AS quantity
+            FROM public.checkout_sessions, jsonb_array_elements(checkout_sessions.items) AS item
+            WHERE checkout_sessions.id = _checkout_session_id
+            GROUP BY 1
+        ) AS wanted
+        JOIN public.products ON products.id = wanted.product_id
+        ORDER BY products.id
+        FOR UPDATE OF products
+    LOOP
+        SELECT COALESCE(sum(quantity), 0) INTO _reserved
+        FROM public.stock_reservations
+        WHERE product_id = _line.id AND checkout_session_id <> _checkout_session_id;
+
+        IF _line.stock_quantity - _reserved <= 0 THEN
+            RAISE EXCEPTION '% is out of stock', _line.name USING ERRCODE = 'check_violation';
+        END IF;
+        IF _line.stock_quantity - _reserved < _line.quantity THEN
+            RAISE EXCEPTION 'Only % left of %', _line.stock_quantity - _reserved, _line.name USING ERRCODE = 'check_violation';
+        END IF;
+
+        INSERT INTO public.stock_reservations (checkout_session_id, product_id, quantity, expires_at)
+        VALUES (_checkout_session_id, _line.id, _line.quantity, _expires_at)
+        ON CONFLICT (checkout_session_id, product_id) DO UPDATE SET quantity = EXCLUDED.quantity, expires_at = EXCLUDED.expires_at;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_checkout_stock(uuid, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_checkout_stock(uuid, timestamp with time zone) TO service_role;
+
+-- Placing the order takes the items off the shelf and drops the session's reservation in the same
+-- transaction. A payment that completes after its reservation lapsed can take stock below zero, which
+-- shows up as oversold in the admin rather than failing an order that has already been paid for.
+CREATE OR REPLACE FUNCTION public.place_order(_order jsonb, _items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order_id uuid;
+BEGIN
+    IF jsonb_array_length(_items) = 0 THEN
+        RAISE EXCEPTION 'Order must contain at least one item';
+    END IF;
+
+    INSERT INTO public.orders (user_id, guest_email, guest_phone, total_amount, shipping_address, shipping_state, status, payment_status, payment_id, idempotency_key, utr)
+    VALUES (
+        (_order->>'user_id')::uuid,
+        _order->>'guest_email',
+        _order->>'guest_phone',
+        (_order->>'total_amount')::numeric,
+        _order->>'shipping_address',
+        _order->>'shipping_state',
+        _order->>'status',
+        _order->>'payment_status',
+        _order->>'payment_id',
+        _order->>'idempotency_key',
+        _order->>'utr'
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id INTO _order_id;
+
+    IF _order_id IS NULL THEN
+        SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _order->>'idempotency_key';
+        RETURN _order_id;
+    END IF;
+
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT
+        _order_id,
+        (item->>'product_id')::uuid,
+        item->>'product_name',
+        (item->>'quantity')::integer,
+        (item->>'price')::numeric
+    FROM jsonb_array_elements(_items) AS item;
+
+    UPDATE public.products
+    SET stock_quantity = products.stock_quantity - ordered.quantity
+    FROM (
+        SELECT (item->>'product_id')::uuid AS product_id, sum((item->>'quantity')::integer) AS quantity
+        FROM jsonb_array_elements(_items) AS item
+        GROUP BY 1
+    ) AS ordered
+    WHERE products.id = ordered.product_id;
+
+    DELETE FROM public.stock_reservations WHERE checkout_session_id = (_order->>'checkout_session_id')::uuid;
+
+    RETURN _order_id;
+END;
+$$;
+
+-- Cancelled orders go back on the shelf; returned items are restocked by hand once inspected
+CREATE OR REPLACE FUNCTION public.restock_cancelled_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+        UPDATE public.products
+        SET stock_quantity = products.stock_quantity + cancelled.quantity
+        FROM (
+            SELECT product_id, sum(quantity) AS quantity
+            FROM public.order_items
+            WHERE order_id = NEW.id AND product_id IS NOT NULL
+            GROUP BY product_id
+        ) AS cancelled
+        WHERE products.id = cancelled.product_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER restock_cancelled_order AFTER UPDATE OF status ON public.orders FOR EACH ROW EXECUTE FUNCTION public.restock_cancelled_order();
@@ -0,0 +1,314 @@
+-- Product variants. A product lists the axes it varies along, in display order (e.g. {Colour,Storage}), and
+-- each variant has one value per axis with its own SKU, prices, stock and images. Products without axes are
+-- sold as before, from the products row.
+ALTER TABLE public.products ADD COLUMN variant_axes text[] DEFAULT '{}'::text[] NOT NULL;
+
+CREATE TABLE public.product_variants (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    -- e.g. {"Colour": "Black", "Storage": "128 GB"}
+    options jsonb DEFAULT '{}'::jsonb NOT NULL,
+    sku text,
+    selling_price numeric NOT NULL,
+    original_price numeric NOT NULL,
+    stock_quantity integer DEFAULT 0 NOT NULL,
+    image_urls text[] DEFAULT '{}'::text[] NOT NULL,
+    display_order integer DEFAULT 0 NOT NULL,
+    is_active boolean DEFAULT true NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    -- Deferrable so save_product_variants can swap SKUs or option values between variants
+    CONSTRAINT product_variants_sku_key UNIQUE (sku) DEFERRABLE,
+    CONSTRAINT product_variants_product_options_key UNIQUE (product_id, options) DEFERRABLE
+);
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active variants" ON public.product_variants FOR SELECT USING (is_active = true AND EXISTS (SELECT 1 FROM public.products WHERE products.id = product_variants.product_id AND products.is_active = true));
+CREATE POLICY "Admins can manage product variants" ON public.product_variants USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_product_variants_updated_at BEFORE UPDATE ON public.product_variants FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Listings only read the products row, so a product with variants shows the cheapest one's prices and the
+-- stock of all of them together. With no active variant left it has nothing to sell: its stock drops to 0,
+-- unless its axes were cleared too and it is sold from its own row again.
+CREATE OR REPLACE FUNCTION public.sync_product_from_variants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _product_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.product_id ELSE NEW.product_id END;
+BEGIN
+    UPDATE public.products
+    SET
+        stock_quantity = COALESCE(summary.stock_quantity, CASE WHEN cardinality(products.variant_axes) = 0 THEN products.stock_quantity ELSE 0 END),
+        selling_price = COALESCE(summary.selling_price, products.selling_price),
+        original_price = COALESCE(summary.original_price, products.original_price)
+    -- No GROUP BY, so this is always one row, all nulls when there are no active variants
+    FROM (
+        SELECT
+            sum(stock_quantity)::integer AS stock_quantity,
+            (array_agg(selling_price ORDER BY selling_price))[1] AS selling_price,
+            (array_agg(original_price ORDER BY selling_price))[1] AS original_price
+        FROM public.product_variants
+        WHERE product_id = _product_id AND is_active = true
+    ) AS summary
+    WHERE products.id = _product_id;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_product_from_variants AFTER INSERT OR UPDATE OR DELETE ON public.product_variants FOR EACH ROW EXECUTE FUNCTION public.sync_product_from_variants();
+
+-- Replaces a product's axes and variants with the admin's list in one transaction. Each element of _variants
+-- is a variant row; those with an id update that variant, the others are inserted, and variants missing
+-- from the list are deleted, which also drops them from carts. Past orders keep their line with the
+-- variant unset. An empty list turns the product back into one sold from its own row.
+CREATE OR REPLACE FUNCTION public.save_product_variants(_product_id uuid, _axes text[], _variants jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _variant jsonb;
+    _position bigint;
+BEGIN
+    IF NOT public.has_role(auth.uid(), 'admin'::public.app_role) THEN
+        RAISE EXCEPTION 'Only admins can edit product variants' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    -- Checked at commit, once every variant has its new values
+    SET CONSTRAINTS public.product_variants_sku_key, public.product_variants_product_options_key DEFERRED;
+
+    UPDATE public.products
+    SET variant_axes = CASE WHEN jsonb_array_length(_variants) > 0 THEN _axes ELSE '{}'::text[] END
+    WHERE id = _product_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    DELETE FROM public.product_variants
+    WHERE product_id = _product_id
+        AND id NOT IN (
+            SELECT (variant->>'id')::uuid
+            FROM jsonb_array_elements(_variants) AS variant
+            WHERE variant->>'id' IS NOT NULL
+        );
+
+    FOR _variant, _position IN
+        SELECT value, ordinality - 1 FROM jsonb_array_elements(_variants) WITH ORDINALITY
+    LOOP
+        IF _variant->>'id' IS NOT NULL THEN
+            UPDATE public.product_variants
+            SET
+                options = _variant->'options',
+                sku = NULLIF(btrim(_variant->>'sku'), ''),
+                selling_price = (_variant->>'selling_price')::numeric,
+                original_price = (_variant->>'original_price')::numeric,
+                stock_quantity = COALESCE((_variant->>'stock_quantity')::integer, 0),
+                image_urls = ARRAY(SELECT jsonb_array_elements_text(COALESCE(_variant->'image_urls', '[]'::jsonb))),
+                display_order = _position,
+                is_active = COALESCE((_variant->>'is_active')::boolean, true)
+            WHERE id = (_variant->>'id')::uuid AND product_id = _product_id;
+
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'Variant % does not belong to this product', _variant->>'id' USING ERRCODE = 'no_data_found';
+            END IF;
+        ELSE
+            INSERT INTO public.product_variants (
+                product_id, options, sku, selling_price, original_price, stock_quantity, image_urls, display_order, is_active
+            )
+            VALUES (
+                _product_id,
+                _variant->'options',
+                NULLIF(btrim(_variant->>'sku'), ''),
+                (_variant->>'selling_price')::numeric,
+                (_variant->>'original_price')::numeric,
+                COALESCE((_variant->>'stock_quantity')::integer, 0),
+                ARRAY(SELECT jsonb_array_elements_text(COALESCE(_variant->'image_urls', '[]'::jsonb))),
+                _position,
+                COALESCE((_variant->>'is_active')::boolean, true)
+            );
+        END IF;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_product_variants(uuid, text[], jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_product_variants(uuid, text[], jsonb) TO authenticated;
+
+-- Cart lines, order lines and reservations point at the variant that was picked
+ALTER TABLE public.cart_items ADD COLUMN variant_id uuid REFERENCES public.product_variants(id) ON DELETE CASCADE;
+ALTER TABLE public.cart_items DROP CONSTRAINT cart_items_user_id_product_id_key;
+ALTER TABLE public.cart_items ADD CONSTRAINT cart_items_user_id_product_id_variant_id_key UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+-- product_name keeps the variant's option values, e.g. "Phone X (Black, 128 GB)", so invoices and emails show them
+ALTER TABLE public.order_items ADD COLUMN variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL;
+
+ALTER TABLE public.stock_reservations ADD COLUMN variant_id uuid REFERENCES public.product_variants(id) ON DELETE CASCADE;
+ALTER TABLE public.stock_reservations DROP CONSTRAINT stock_reservations_session_product_key;
+ALTER TABLE public.stock_reservations ADD CONSTRAINT stock_reservations_session_item_key UNIQUE NULLS NOT DISTINCT (checkout_session_id, product_id, variant_id);
+
+-- Variant lines are checked against the variant's stock. The product row is still the one locked, so every
+-- checkout for any variant of a product queues up behind the same lock.
+CREATE OR REPLACE FUNCTION public.reserve_checkout_stock(_checkout_session_id uuid, _expires_at timestamp with time zone)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _line record;
+    _reserved integer;
+BEGIN
+    DELETE FROM public.stock_reservations WHERE expires_at <= now();
+
+    FOR _line IN
+        SELECT
+            wanted.product_id,
+            wanted.variant_id,
+            wanted.name,
+            wanted.quantity,
+            COALESCE(product_variants.stock_quantity, products.stock_quantity) AS stock_quantity
+        FROM (
+            SELECT
+                (item->>'product_id')::uuid AS product_id,
+                (item->>'variant_id')::uuid AS variant_id,
+                max(item->>'product_name') AS name,
+                sum((item->>'quantity')::integer) AS quantity
+            FROM public.checkout_sessions, jsonb_array_elements(checkout_sessions.items) AS item
+            WHERE checkout_sessions.id = _checkout_session_id
+            GROUP BY 1, 2
+        ) AS wanted
+        JOIN public.products ON products.id = wanted.product_id
+        LEFT JOIN public.product_variants ON product_variants.id = wanted.variant_id
+        ORDER BY wanted.product_id, wanted.variant_id
+        FOR UPDATE OF products
+    LOOP
+        SELECT COALESCE(sum(quantity), 0) INTO _reserved
+        FROM public.stock_reservations
+        WHERE product_id = _line.product_id
+            AND variant_id IS NOT DISTINCT FROM _line.variant_id
+            AND checkout_session_id <> _checkout_session_id;
+
+        IF _line.stock_quantity - _reserved <= 0 THEN
+            RAISE EXCEPTION '% is out of stock', _line.name USING ERRCODE = 'check_violation';
+        END IF;
+        IF _line.stock_quantity - _reserved < _line.quantity THEN
+            RAISE EXCEPTION 'Only % left of %', _line.stock_quantity - _reserved, _line.name USING ERRCODE = 'check_violation';
+        END IF;
+
+        INSERT INTO public.stock_reservations (checkout_session_id, product_id, variant_id, quantity, expires_at)
+        VALUES (_checkout_session_id, _line.product_id, _line.variant_id, _line.quantity, _expires_at)
+        ON CONFLICT ON CONSTRAINT stock_reservations_session_item_key DO UPDATE SET quantity = EXCLUDED.quantity, expires_at = EXCLUDED.expires_at;
+    END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_order(_order jsonb, _items jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order_id uuid;
+BEGIN
+    IF jsonb_array_length(_items) = 0 THEN
+        RAISE EXCEPTION 'Order must contain at least one item';
+    END IF;
+
+    INSERT INTO public.orders (user_id, guest_email, guest_phone, total_amount, shipping_address, shipping_state, status, payment_status, payment_id, idempotency_key, utr)
+    VALUES (
+        (_order->>'user_id')::uuid,
+        _order->>'guest_email',
+        _order->>'guest_phone',
+        (_order->>'total_amount')::numeric,
+        _order->>'shipping_address',
+        _order->>'shipping_state',
+        _order->>'status',
+        _order->>'payment_status',
+        _order->>'payment_id',
+        _order->>'idempotency_key',
+        _order->>'utr'
+    )
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id INTO _order_id;
+
+    IF _order_id IS NULL THEN
+        SELECT id INTO _order_id FROM public.orders WHERE idempotency_key = _order->>'idempotency_key';
+        RETURN _order_id;
+    END IF;
+
+    INSERT INTO public.order_items (order_id, product_id, variant_id, product_name, quantity, price)
+    SELECT
+        _order_id,
+        (item->>'product_id')::uuid,
+        (item->>'variant_id')::uuid,
+        item->>'product_name',
+        (item->>'quantity')::integer,
+        (item->>'price')::numeric
+    FROM jsonb_array_elements(_items) AS item;
+
+    -- Variant stock rolls up to the product through sync_product_from_variants
+    UPDATE public.product_variants
+    SET stock_quantity = product_variants.stock_quantity - ordered.quantity
+    FROM (
+        SELECT (item->>'variant_id')::uuid AS variant_id, sum((item->>'quantity')::integer) AS quantity
+        FROM jsonb_array_elements(_items) AS item
+        WHERE item->>'variant_id' IS NOT NULL
+        GROUP BY 1
+    ) AS ordered
+    WHERE product_variants.id = ordered.variant_id;
+
+    UPDATE public.products
+    SET stock_quantity = products.stock_quantity - ordered.quantity
+    FROM (
+        SELECT (item->>'product_id')::uuid AS product_id, sum((item->>'quantity')::integer) AS quantity
+        FROM jsonb_array_elements(_items) AS item
+        WHERE item->>'variant_id' IS NULL
+        GROUP BY 1
+    ) AS ordered
+    WHERE products.id = ordered.product_id;
+
+    DELETE FROM public.stock_reservations WHERE checkout_session_id = (_order->>'checkout_session_id')::uuid;
+
+    RETURN _order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.restock_cancelled_order()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+        UPDATE public.product_variants
+        SET stock_quantity = product_variants.stock_quantity + cancelled.quantity
+        FROM (
+            SELECT variant_id, sum(quantity) AS quantity
+            FROM public.order_items
+            WHERE order_id = NEW.id AND variant_id IS NOT NULL
+            GROUP BY variant_id
+        ) AS cancelled
+        WHERE product_variants.id = cancelled.variant_id;
+
+        UPDATE public.products
+        SET stock_quantity = products.stock_quantity + cancelled.quantity
+        FROM (
+            SELECT product_id, sum(quantity) AS quantity
+            FROM public.order_items
+            WHERE order_id = NEW.id AND product_id IS NOT NULL AND variant_id IS NULL
+            GROUP BY product_id
+        ) AS cancelled
+        WHERE products.id = cancelled.product_id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
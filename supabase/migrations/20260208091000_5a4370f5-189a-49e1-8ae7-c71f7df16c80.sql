@@ -0,0 +1,89 @@
+-- Specifications. Each category defines the attributes its products are described by (RAM, screen size,
+-- fabric, ...), and each product stores a value for the ones that apply to it.
+CREATE TABLE public.category_attributes (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    category_id uuid NOT NULL REFERENCES public.categories(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    data_type text DEFAULT 'text' NOT NULL,
+    -- Shown after number values, e.g. GB or inch
+    unit text,
+    -- The allowed values of a select attribute
+    options text[] DEFAULT '{}'::text[] NOT NULL,
+    -- Heading the attribute is listed under in the specifications table, e.g. Display
+    group_name text DEFAULT 'General' NOT NULL,
+    display_order integer DEFAULT 0 NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT category_attributes_data_type_check CHECK (data_type IN ('text', 'number', 'boolean', 'select')),
+    CONSTRAINT category_attributes_options_check CHECK (data_type <> 'select' OR cardinality(options) > 0),
+    CONSTRAINT category_attributes_category_name_key UNIQUE (category_id, name)
+);
+
+-- Values are kept as text and checked against the attribute's type when written
+CREATE TABLE public.product_attribute_values (
+    id uuid DEFAULT gen_random_uuid() NOT NULL PRIMARY KEY,
+    product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    attribute_id uuid NOT NULL REFERENCES public.category_attributes(id) ON DELETE CASCADE,
+    value text NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT product_attribute_values_product_attribute_key UNIQUE (product_id, attribute_id)
+);
+
+ALTER TABLE public.category_attributes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_attribute_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view category attributes" ON public.category_attributes FOR SELECT USING (true);
+CREATE POLICY "Admins can manage category attributes" ON public.category_attributes USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+CREATE POLICY "Anyone can view attribute values of active products" ON public.product_attribute_values FOR SELECT USING (EXISTS (SELECT 1 FROM public.products WHERE products.id = product_attribute_values.product_id AND products.is_active = true));
+CREATE POLICY "Admins can manage product attribute values" ON public.product_attribute_values USING (public.has_role(auth.uid(), 'admin'::public.app_role));
+
+CREATE TRIGGER update_category_attributes_updated_at BEFORE UPDATE ON public.category_attributes FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+CREATE TRIGGER update_product_attribute_values_updated_at BEFORE UPDATE ON public.product_attribute_values FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rejects values of the wrong type and attributes from another category than the product's
+CREATE OR REPLACE FUNCTION public.validate_product_attribute_value()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _attribute public.category_attributes;
+BEGIN
+    SELECT * INTO _attribute FROM public.category_attributes WHERE id = NEW.attribute_id;
+
+    IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = NEW.product_id AND category_id = _attribute.category_id) THEN
+        RAISE EXCEPTION '% does not apply to this product''s category', _attribute.name USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.value := btrim(NEW.value);
+    IF _attribute.data_type = 'number' AND NEW.value !~ '^-?\d+(\.\d+)?$' THEN
+        RAISE EXCEPTION '% must be a number', _attribute.name USING ERRCODE = 'check_violation';
+    ELSIF _attribute.data_type = 'boolean' AND NEW.value NOT IN ('true', 'false') THEN
+        RAISE EXCEPTION '% must be yes or no', _attribute.name USING ERRCODE = 'check_violation';
+    ELSIF _attribute.data_type = 'select' AND NOT NEW.value = ANY (_attribute.options) THEN
+        RAISE EXCEPTION '% must be one of %', _attribute.name, array_to_string(_attribute.options, ', ') USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_product_attribute_value BEFORE INSERT OR UPDATE ON public.product_attribute_values FOR EACH ROW EXECUTE FUNCTION public.validate_product_attribute_value();
+
+-- Moving a product to another category drops the values of attributes it no longer has
+CREATE OR REPLACE FUNCTION public.clear_product_attribute_values()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    DELETE FROM public.product_attribute_values
+    WHERE product_id = NEW.id
+        AND attribute_id NOT IN (SELECT id FROM public.category_attributes WHERE category_id = NEW.category_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_product_attribute_values AFTER UPDATE OF category_id ON public.products FOR EACH ROW WHEN (OLD.category_id IS DISTINCT FROM NEW.category_id) EXECUTE FUNCTION public.clear_product_attribute_values();
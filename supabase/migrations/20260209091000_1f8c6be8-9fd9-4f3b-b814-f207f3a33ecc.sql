@@ -0,0 +1,94 @@
+CREATE EXTENSION IF NOT EXISTS "pg_trgm" WITH SCHEMA "extensions";
+
+-- Product search. A generated column can only read its own row, so the category's name is copied onto the
+-- product and kept current by the triggers below.
+ALTER TABLE public.products ADD COLUMN category_name text;
+
+UPDATE public.products
+SET category_name = categories.name
+FROM public.categories
+WHERE categories.id = products.category_id;
+
+-- Name matches rank above category matches, which rank above description matches
+ALTER TABLE public.products ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english'::regconfig, name), 'A') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(category_name, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, COALESCE(description, '')), 'C')
+) STORED;
+
+CREATE INDEX idx_products_search_vector ON public.products USING gin (search_vector);
+-- Catches misspelt and partly typed names that the stemmed search misses
+CREATE INDEX idx_products_name_trgm ON public.products USING gin (name extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.set_product_category_name()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+    NEW.category_name := (SELECT name FROM public.categories WHERE id = NEW.category_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_product_category_name BEFORE INSERT OR UPDATE OF category_id ON public.products FOR EACH ROW EXECUTE FUNCTION public.set_product_category_name();
+
+CREATE OR REPLACE FUNCTION public.sync_category_name_to_products()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+    UPDATE public.products SET category_name = NEW.name WHERE category_id = NEW.id;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_category_name_to_products AFTER UPDATE OF name ON public.categories FOR EACH ROW WHEN (OLD.name IS DISTINCT FROM NEW.name) EXECUTE FUNCTION public.sync_category_name_to_products();
+
+-- Active products matching a shopper's search, best first. _query takes web search syntax ("quoted phrases",
+-- -excluded words, or). Highlighted words in name_highlight and snippet are wrapped in <mark></mark>; the
+-- text around them is not HTML-escaped, so clients must not render it as HTML.
+CREATE OR REPLACE FUNCTION public.search_products(_query text, _limit integer DEFAULT 48, _offset integer DEFAULT 0)
+RETURNS TABLE (
+    id uuid,
+    name text,
+    selling_price numeric,
+    original_price numeric,
+    image_url text,
+    stock_quantity integer,
+    category_id uuid,
+    rank real,
+    name_highlight text,
+    snippet text
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $$
+    WITH search AS (
+        SELECT websearch_to_tsquery('english', _query) AS query
+    )
+    SELECT
+        products.id,
+        products.name,
+        products.selling_price,
+        products.original_price,
+        products.image_url,
+        products.stock_quantity,
+        products.category_id,
+        (ts_rank_cd(products.search_vector, search.query) + word_similarity(_query, products.name) * 0.5)::real AS rank,
+        ts_headline('english', products.name, search.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS name_highlight,
+        CASE WHEN products.description IS NOT NULL AND products.description <> '' THEN
+            ts_headline('english', products.description, search.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=12, MaxFragments=1')
+        END AS snippet
+    FROM public.products, search
+    WHERE products.is_active = true
+        AND btrim(_query) <> ''
+        AND (products.search_vector @@ search.query OR word_similarity(_query, products.name) >= 0.4)
+    ORDER BY rank DESC, products.display_order
+    LIMIT _limit OFFSET _offset;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products(text, integer, integer) TO anon, authenticated;
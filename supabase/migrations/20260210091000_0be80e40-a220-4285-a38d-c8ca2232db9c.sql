@@ -0,0 +1,116 @@
+-- The product listing: one page of active products matching the search and filters, the total, and facet
+-- counts. Each facet is counted with every other filter applied but its own, so picking a category still
+-- shows how many products the other categories would add. Without a search, relevance means the admin's
+-- display order.
+CREATE OR REPLACE FUNCTION public.browse_products(
+    _query text DEFAULT NULL,
+    _category_slugs text[] DEFAULT NULL,
+    _min_price numeric DEFAULT NULL,
+    _max_price numeric DEFAULT NULL,
+    _min_discount integer DEFAULT NULL,
+    _in_stock boolean DEFAULT false,
+    _sort text DEFAULT 'relevance',
+    _limit integer DEFAULT 48,
+    _offset integer DEFAULT 0
+)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+    WITH candidates AS (
+        SELECT
+            products.id,
+            products.name,
+            products.selling_price,
+            products.original_price,
+            products.image_url,
+            products.stock_quantity,
+            products.created_at,
+            products.display_order,
+            categories.slug AS category_slug,
+            categories.name AS category_name,
+            COALESCE(round((1 - products.selling_price / NULLIF(products.original_price, 0)) * 100), 0)::integer AS discount_percent,
+            search.rank,
+            search.name_highlight,
+            search.snippet
+        FROM public.products
+        LEFT JOIN public.categories ON categories.id = products.category_id
+        LEFT JOIN public.search_products(_query, NULL, 0) AS search ON search.id = products.id
+        WHERE products.is_active = true
+            AND (NULLIF(btrim(_query), '') IS NULL OR search.id IS NOT NULL)
+    ),
+    filtered AS (
+        SELECT
+            candidates.*,
+            (COALESCE(cardinality(_category_slugs), 0) = 0 OR category_slug = ANY (_category_slugs)) AS category_match,
+            ((_min_price IS NULL OR selling_price >= _min_price) AND (_max_price IS NULL OR selling_price <= _max_price)) AS price_match,
+            (_min_discount IS NULL OR discount_percent >= _min_discount) AS discount_match,
+            (NOT COALESCE(_in_stock, false) OR stock_quantity > 0) AS stock_match
+        FROM candidates
+    ),
+    results AS (
+        SELECT
+            filtered.*,
+            row_number() OVER (
+                ORDER BY
+                    CASE WHEN _sort = 'price_asc' THEN selling_price END ASC,
+                    CASE WHEN _sort = 'price_desc' THEN selling_price END DESC,
+                    CASE WHEN _sort = 'newest' THEN created_at END DESC,
+                    CASE WHEN _sort = 'discount' THEN discount_percent END DESC,
+                    rank DESC NULLS LAST,
+                    display_order,
+                    id
+            ) AS position
+        FROM filtered
+        WHERE category_match AND price_match AND discount_match AND stock_match
+    )
+    SELECT jsonb_build_object(
+        'total', (SELECT count(*) FROM results),
+        'products', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object(
+                'id', id,
+                'name', name,
+                'selling_price', selling_price,
+                'original_price', original_price,
+                'image_url', image_url,
+                'stock_quantity', stock_quantity,
+                'discount_percent', discount_percent,
+                'name_highlight', name_highlight,
+                'snippet', snippet
+            ) ORDER BY position)
+            FROM results
+            WHERE position > _offset AND position <= _offset + _limit
+        ), '[]'::jsonb),
+        'facets', jsonb_build_object(
+            'categories', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object('slug', category_slug, 'name', category_name, 'count', total) ORDER BY category_name)
+                FROM (
+                    SELECT category_slug, category_name, count(*) AS total
+                    FROM filtered
+                    WHERE category_slug IS NOT NULL AND price_match AND discount_match AND stock_match
+                    GROUP BY category_slug, category_name
+                ) AS category_counts
+            ), '[]'::jsonb),
+            'price', (
+                SELECT jsonb_build_object('min', min(selling_price), 'max', max(selling_price))
+                FROM filtered
+                WHERE category_match AND discount_match AND stock_match
+            ),
+            'discounts', (
+                SELECT jsonb_agg(jsonb_build_object(
+                    'min', bucket,
+                    'count', (SELECT count(*) FROM filtered WHERE discount_percent >= bucket AND category_match AND price_match AND stock_match)
+                ) ORDER BY bucket DESC)
+                FROM unnest(ARRAY[50, 40, 30, 20, 10]) AS bucket
+            ),
+            'in_stock', (
+                SELECT count(*)
+                FROM filtered
+                WHERE stock_quantity > 0 AND category_match AND price_match AND discount_match
+            )
+        )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.browse_products(text, text[], numeric, numeric, integer, boolean, text, integer, integer) TO anon, authenticated;
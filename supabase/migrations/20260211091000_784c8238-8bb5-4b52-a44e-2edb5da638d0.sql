@@ -0,0 +1,152 @@
+-- Invoice serials restart at 000001 each financial year, as GST expects one series per year. A counter
+-- row per year replaces the single sequence, which carried on from the previous year.
+CREATE TABLE public.invoice_counters (
+    financial_year integer NOT NULL PRIMARY KEY,
+    last_value integer NOT NULL
+);
+
+-- Only generate_invoice reads or writes the counters
+ALTER TABLE public.invoice_counters ENABLE ROW LEVEL SECURITY;
+
+-- Carry on from the invoices already issued in each year
+INSERT INTO public.invoice_counters (financial_year, last_value)
+SELECT
+    extract(year FROM invoice_date)::integer - CASE WHEN extract(month FROM invoice_date) < 4 THEN 1 ELSE 0 END,
+    max(split_part(invoice_number, '-', 2)::integer)
+FROM public.invoices
+GROUP BY 1;
+
+CREATE OR REPLACE FUNCTION public.generate_invoice(_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+    _order record;
+    _invoice_id uuid;
+    _settings jsonb;
+    _seller_state text;
+    _is_interstate boolean;
+    _lines jsonb;
+    _today date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+    _fy_start integer;
+    _serial integer;
+BEGIN
+    SELECT id, user_id, status, total_amount, shipping_address, shipping_state
+    INTO _order
+    FROM public.orders
+    WHERE id = _order_id
+    -- Serialises concurrent requests for the same order so only one invoice number is ever taken
+    FOR UPDATE;
+
+    IF NOT FOUND OR (_order.user_id IS DISTINCT FROM auth.uid() AND NOT public.has_role(auth.uid(), 'admin'::public.app_role)) THEN
+        RAISE EXCEPTION 'Order not found' USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT id INTO _invoice_id FROM public.invoices WHERE order_id = _order_id;
+    IF FOUND THEN
+        RETURN _invoice_id;
+    END IF;
+
+    IF _order.status IN ('pending_payment', 'cancelled') THEN
+        RAISE EXCEPTION 'An invoice is only available once the order is confirmed' USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT jsonb_object_agg(key, value) INTO _settings
+    FROM public.settings
+    WHERE key IN ('seller_legal_name', 'seller_gstin', 'seller_address', 'seller_state');
+
+    IF NULLIF(_settings->>'seller_gstin', '') IS NULL OR NULLIF(_settings->>'seller_state', '') IS NULL THEN
+        RAISE EXCEPTION 'Seller GSTIN and state must be set before invoices can be issued' USING ERRCODE = 'check_violation';
+    END IF;
+
+    _seller_state := _settings->>'seller_state';
+    _is_interstate := lower(btrim(COALESCE(_order.shipping_state, ''))) <> lower(btrim(_seller_state));
+
+    WITH items AS (
+        SELECT
+            order_items.product_name AS description,
+            products.hsn_code AS hsn,
+            order_items.quantity,
+            order_items.price,
+            COALESCE(products.gst_rate, 18) AS rate,
+            order_items.price * order_items.quantity AS gross,
+            order_items.created_at,
+            order_items.id
+        FROM public.order_items
+        LEFT JOIN public.products ON products.id = order_items.product_id
+        WHERE order_items.order_id = _order_id
+    ),
+    charges AS (
+        SELECT description, hsn, quantity, price, rate, gross, position
+        FROM (
+            SELECT description, hsn, quantity, price, rate, gross, row_number() OVER (ORDER BY created_at, id) AS position FROM items
+            UNION ALL
+            SELECT 'Cash on Delivery charges', '9985', 1, _order.total_amount - (SELECT sum(gross) FROM items), 18,
+                   _order.total_amount - (SELECT sum(gross) FROM items), 1000000
+        ) AS all_lines
+        WHERE gross > 0
+    ),
+    taxed AS (
+        SELECT *, round(gross * 100 / (100 + rate), 2) AS taxable FROM charges
+    )
+    SELECT jsonb_agg(jsonb_build_object(
+        'description', description,
+        'hsn', hsn,
+        'quantity', quantity,
+        'unit_price', price,
+        'rate', rate,
+        'taxable', taxable,
+        'cgst', CASE WHEN _is_interstate THEN 0 ELSE round((gross - taxable) / 2, 2) END,
+        'sgst', CASE WHEN _is_interstate THEN 0 ELSE (gross - taxable) - round((gross - taxable) / 2, 2) END,
+        'igst', CASE WHEN _is_interstate THEN gross - taxable ELSE 0 END,
+        'total', gross
+    ) ORDER BY position)
+    INTO _lines
+    FROM taxed;
+
+    IF _lines IS NULL THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Indian financial years run April to March
+    _fy_start := extract(year FROM _today)::integer - CASE WHEN extract(month FROM _today) < 4 THEN 1 ELSE 0 END;
+
+    -- The counter row stays locked until this transaction ends, so serials are gapless within the year
+    INSERT INTO public.invoice_counters AS counters (financial_year, last_value)
+    VALUES (_fy_start, 1)
+    ON CONFLICT (financial_year) DO UPDATE SET last_value = counters.last_value + 1
+    RETURNING last_value INTO _serial;
+
+    INSERT INTO public.invoices (
+        order_id, invoice_number, invoice_date, seller, buyer, place_of_supply, is_interstate, lines,
+        taxable_amount, cgst_amount, sgst_amount, igst_amount, total_amount
+    )
+    SELECT
+        _order_id,
+        'FM' || lpad((_fy_start % 100)::text, 2, '0') || lpad(((_fy_start + 1) % 100)::text, 2, '0')
+            || '-' || lpad(_serial::text, 6, '0'),
+        _today,
+        jsonb_build_object(
+            'name', COALESCE(_settings->>'seller_legal_name', ''),
+            'gstin', _settings->>'seller_gstin',
+            'address', COALESCE(_settings->>'seller_address', ''),
+            'state', _seller_state
+        ),
+        jsonb_build_object('address', COALESCE(_order.shipping_address, ''), 'state', _order.shipping_state),
+        _order.shipping_state,
+        _is_interstate,
+        _lines,
+        (SELECT sum((line->>'taxable')::numeric) FROM jsonb_array_elements(_lines) AS line),
+        (SELECT sum((line->>'cgst')::numeric) FROM jsonb_array_elements(_lines) AS line),
+        (SELECT sum((line->>'sgst')::numeric) FROM jsonb_array_elements(_lines) AS line),
+        (SELECT sum((line->>'igst')::numeric) FROM jsonb_array_elements(_lines) AS line),
+        (SELECT sum((line->>'total')::numeric) FROM jsonb_array_elements(_lines) AS line)
+    RETURNING id INTO _invoice_id;
+
+    RETURN _invoice_id;
+END;
+$$;
+
+DROP SEQUENCE public.invoice_number_seq;
@@ -0,0 +1,3 @@
+-- When Cashfree last reported a failed or abandoned payment for the session. The session stays pending,
+-- since the shopper can still pay from the checkout page, but its stock is released in the meantime.
+ALTER TABLE public.checkout_sessions ADD COLUMN payment_failed_at timestamp with time zone;
@@ -0,0 +1,18 @@
+-- Every Cashfree order issued for a checkout session. A shopper can retry, or pay on an order that was
+-- replaced after it lapsed, so payments are matched on any of them; checkout_sessions.gateway_order_id
+-- is only the latest.
+CREATE TABLE public.checkout_gateway_orders (
+    gateway_order_id text NOT NULL PRIMARY KEY,
+    checkout_session_id uuid NOT NULL REFERENCES public.checkout_sessions(id) ON DELETE CASCADE,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_checkout_gateway_orders_session_id ON public.checkout_gateway_orders (checkout_session_id);
+
+INSERT INTO public.checkout_gateway_orders (gateway_order_id, checkout_session_id)
+SELECT gateway_order_id, id FROM public.checkout_sessions WHERE gateway_order_id IS NOT NULL;
+
+ALTER TABLE public.checkout_gateway_orders ENABLE ROW LEVEL SECURITY;
+
+-- Written by the cashfree-payment edge function (service role) only
+CREATE POLICY "Admins can view all checkout gateway orders" ON public.checkout_gateway_orders FOR SELECT USING (public.has_role(auth.uid(), 'admin'::public.app_role));